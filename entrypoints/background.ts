@@ -1,18 +1,65 @@
-const open = async () => {
+import { SYNC_ALARM_NAME, SYNC_INTERVAL_MINUTES } from '../src/constants';
+import { dataSlice } from '../src/redux/reducers/data';
+import { parseNotificationId } from '../src/utils/notify';
+import { fireReminder, isReminderAlarm } from '../src/utils/reminder';
+import { loadStoredData } from '../src/utils/storage';
+import { backgroundSync } from '../src/utils/sync';
+
+const { loadData } = dataSlice.actions;
+
+const open = async (path?: string) => {
   const url = browser.runtime.getURL('/index.html');
+  const target = path ? `${url}#${path}` : undefined;
   const tabs = await browser.tabs.query({ url });
   if (tabs.length) {
-    await browser.tabs.update(tabs[0].id, { active: true });
+    await browser.tabs.update(tabs[0].id, { active: true, url: target });
+    if (tabs[0].windowId !== undefined) {
+      await browser.windows.update(tabs[0].windowId, { focused: true });
+    }
   } else {
-    await browser.tabs.create({ url });
+    await browser.tabs.create({ url: target ?? url });
+  }
+};
+
+const onActionClicked = () => open();
+
+const onNotificationClicked = async (notificationId: string) => {
+  const path = parseNotificationId(notificationId);
+  if (path === undefined) return;
+  await open(path);
+  await browser.notifications.clear(notificationId);
+};
+
+const onAlarm = async (alarm: Browser.alarms.Alarm) => {
+  if (alarm.name === SYNC_ALARM_NAME) {
+    try {
+      await backgroundSync();
+    } catch (e) {
+      console.error('Background sync failed', e);
+    }
+  } else if (isReminderAlarm(alarm.name)) {
+    const data = await loadStoredData();
+    if (data) await fireReminder(dataSlice.reducer(undefined, loadData(data)), alarm);
   }
 };
 
 export default defineBackground({
   type: 'module',
   main() {
-    if (!browser.action.onClicked.hasListener(open)) {
-      browser.action.onClicked.addListener(open);
+    if (!browser.action.onClicked.hasListener(onActionClicked)) {
+      browser.action.onClicked.addListener(onActionClicked);
+    }
+    if (!browser.notifications.onClicked.hasListener(onNotificationClicked)) {
+      browser.notifications.onClicked.addListener(onNotificationClicked);
+    }
+    if (!browser.alarms.onAlarm.hasListener(onAlarm)) {
+      browser.alarms.onAlarm.addListener(onAlarm);
     }
+    // alarms survive restarts of the service worker, do not reset the schedule
+    browser.alarms.get(SYNC_ALARM_NAME).then((alarm) => {
+      if (!alarm) {
+        browser.alarms.create(SYNC_ALARM_NAME, { periodInMinutes: SYNC_INTERVAL_MINUTES });
+      }
+    });
   },
 });
@@ -1,51 +1,263 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
 import { Trans } from '@lingui/react/macro';
-import { List, ListItem, ListItemButton, ListItemText, ListSubheader } from '@mui/material';
+import {
+  Badge,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Tooltip,
+} from '@mui/material';
 import cn from 'classnames';
 import { memoize } from 'proxy-memoize';
-import { useEffect, useRef, useState } from 'react';
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import { ContentType } from 'thu-learn-lib';
+import { useLocation } from 'wouter';
+
+import IconCheckDouble from '~icons/fa6-solid/check-double';
+import IconChevronDown from '~icons/fa6-solid/chevron-down';
+import IconChevronRight from '~icons/fa6-solid/chevron-right';
+import IconDownload from '~icons/fa6-solid/download';
+import IconEnvelope from '~icons/fa6-solid/envelope';
+import IconEnvelopeOpen from '~icons/fa6-solid/envelope-open';
+import IconEyeSlash from '~icons/fa6-solid/eye-slash';
+import IconStar from '~icons/fa6-solid/star';
+import IconXmark from '~icons/fa6-solid/xmark';
+
 import styles from '../css/list.module.css';
-import { downloadAllUnreadFiles, loadMoreCard } from '../redux/actions';
+import {
+  downloadAllUnreadFiles,
+  downloadFiles,
+  refreshCardList,
+  toggleIgnoreState,
+  toggleIgnoreStates,
+  toggleReadState,
+  toggleReadStates,
+  toggleSelectionMode,
+  toggleStarState,
+  toggleStarStates,
+} from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectSearchQuery } from '../redux/selectors';
+import type { RootState } from '../redux/store';
+import type { ContentInfo } from '../types/data';
+import { type CardGroup, groupContents } from '../utils/group';
+import { matchQuery } from '../utils/query';
+import { useShortcutHandlers } from '../utils/shortcut';
+import { cardFilterKey } from '../utils/sort';
+import { useVirtualList } from '../utils/virtual';
 import ContentCard from './ContentCard';
 
+const cardKey = (c: ContentInfo) => `${c.type}-${c.id}`;
+
+const toRefs = (contents: ContentInfo[]) => contents.map(({ type, id }) => ({ type, id }));
+
+// a row of the virtual list is either the header of a group or a card
+type CardRow = { key: string; group: CardGroup; content?: ContentInfo };
+
+const estimateRowSize = (key: string) => (key.startsWith('group-') ? 48 : 110);
+
 const CardList = () => {
+  const { _ } = useLingui();
   const dispatch = useAppDispatch();
-  const threshold = useAppSelector((state) => state.ui.cardVisibilityThreshold);
+  const [_location, navigate] = useLocation();
   const originalCardList = useAppSelector((state) => state.ui.cardList);
+  const selectionMode = useAppSelector((state) => state.ui.selectionMode);
+  const filterKey = useAppSelector((state) => cardFilterKey(state.ui.cardFilter));
 
   const [_onTop, setOnTop] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
 
+  // start from the top for another filter, a refreshed list keeps its position
   useEffect(() => {
-    void originalCardList;
+    void filterKey;
     if (scrollRef.current) {
       scrollRef.current.scrollTop = 0;
       setOnTop(true);
     }
+  }, [filterKey]);
+
+  // selection is kept as card keys, and the anchor is an index into shown cards for shift-click
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [anchor, setAnchor] = useState<number | null>(null);
+  // key of the card focused by keyboard navigation
+  const [focused, setFocused] = useState<string | undefined>();
+
+  useEffect(() => {
+    void originalCardList;
+    void selectionMode;
+    setSelected(new Set());
+    setAnchor(null);
+  }, [originalCardList, selectionMode]);
+
+  useEffect(() => {
+    void originalCardList;
+    setFocused(undefined);
   }, [originalCardList]);
 
-  const cards = useAppSelector(
-    memoize((state) =>
-      state.helper.loggedIn
-        ? originalCardList
-            .map(({ type, id }) => state.data[`${type}Map`][id])
-            .filter(
-              (c) =>
-                !!c &&
-                c.title
-                  .toLocaleLowerCase()
-                  .includes(state.ui.titleFilter?.toLocaleLowerCase() ?? ''),
-            )
-        : [],
-    ),
+  // filtering thousands of cards may lag behind typing, but should not block it
+  const query = useDeferredValue(useAppSelector(selectSearchQuery));
+  const selectCards = useMemo(
+    () =>
+      memoize((state: RootState) =>
+        state.helper.loggedIn
+          ? originalCardList
+              .map(({ type, id }) => state.data[`${type}Map`][id])
+              .filter(
+                (c) =>
+                  !!c &&
+                  matchQuery(query, c, c.courseId ? state.data.courseMap[c.courseId] : undefined),
+              )
+          : [],
+      ),
+    [originalCardList, query],
   );
-  const filtered = cards.slice(0, threshold);
+  const cards = useAppSelector(selectCards);
+  const grouping = useAppSelector((state) => state.data.cardGrouping);
+  const courseMap = useAppSelector((state) => state.data.courseMap);
+  const groups = useMemo(
+    () => groupContents(cards, grouping, courseMap),
+    [cards, grouping, courseMap],
+  );
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  const rows = useMemo(() => {
+    const result: CardRow[] = [];
+    for (const group of groups) {
+      if (grouping !== 'none') result.push({ key: `group-${group.key}`, group });
+      if (collapsed[group.key]) continue;
+      for (const content of group.contents) result.push({ key: cardKey(content), group, content });
+    }
+    return result;
+  }, [groups, grouping, collapsed]);
+  const rowKeys = useMemo(() => rows.map((r) => r.key), [rows]);
+  const {
+    rows: renderedRows,
+    offsets,
+    viewportTop,
+    paddingTop,
+    paddingBottom,
+    measure,
+    scrollToRow,
+  } = useVirtualList(scrollRef, rowsRef, { keys: rowKeys, estimateSize: estimateRowSize });
+
+  // the header of the group scrolled past is pinned on top
+  let pinnedGroup: CardGroup | undefined;
+  rows.forEach((r, i) => {
+    if (!r.content && offsets[i] < viewportTop) pinnedGroup = r.group;
+  });
+
   const unreadFileCount = cards.reduce((count, c) => {
     if (c.type === ContentType.FILE && !c.hasRead) return count + 1;
     return count;
   }, 0);
-  const canLoadMore = threshold < cards.length;
+
+  // cards not in collapsed groups
+  const shownCards = useMemo(() => rows.flatMap((r) => (r.content ? [r.content] : [])), [rows]);
+  const selectedCards = cards.filter((c) => selected.has(cardKey(c)));
+  const selectedFiles = selectedCards.filter((c) => c.type === ContentType.FILE);
+
+  const onSelect = (index: number, shiftKey: boolean) => {
+    const next = new Set(selected);
+    if (shiftKey && anchor !== null) {
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      for (const c of shownCards.slice(from, to + 1)) next.add(cardKey(c));
+    } else {
+      const key = cardKey(shownCards[index]);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      setAnchor(index);
+    }
+    setSelected(next);
+  };
+
+  const focusedCard = shownCards.find((c) => cardKey(c) === focused);
+  const moveFocus = (offset: number) => {
+    if (shownCards.length === 0) return false;
+    const index = focusedCard ? shownCards.indexOf(focusedCard) + offset : 0;
+    const key = cardKey(shownCards[Math.max(0, Math.min(index, shownCards.length - 1))]);
+    setFocused(key);
+    scrollToRow(rowKeys.indexOf(key));
+    return true;
+  };
+
+  useShortcutHandlers({
+    nextCard: () => moveFocus(1),
+    prevCard: () => moveFocus(-1),
+    openCard: () => {
+      if (!focusedCard) return false;
+      const { type, id } = focusedCard;
+      if (type === ContentType.DISCUSSION || type === ContentType.QUESTION) {
+        navigate(`/web/${encodeURIComponent(focusedCard.url)}`);
+      } else {
+        navigate(`/content/${type}/${id}`);
+      }
+      dispatch(toggleReadState({ type, id, state: true }));
+    },
+    toggleStar: () => {
+      if (!focusedCard) return false;
+      const { type, id, starred } = focusedCard;
+      dispatch(toggleStarState({ type, id, state: !starred }));
+    },
+    toggleRead: () => {
+      if (!focusedCard) return false;
+      const { type, id, hasRead } = focusedCard;
+      dispatch(toggleReadState({ type, id, state: !hasRead }));
+    },
+    toggleIgnore: () => {
+      if (!focusedCard) return false;
+      const { type, id, ignored } = focusedCard;
+      dispatch(toggleIgnoreState({ type, id, state: !ignored }));
+    },
+  });
+
+  const renderGroupHeader = (g: CardGroup) => {
+    const unread = g.contents.filter((c) => !c.hasRead);
+    return (
+      <ListSubheader component="div" disableSticky className={styles.card_group_header}>
+        <ListItemButton
+          className={styles.card_group_title}
+          onClick={() => setCollapsed({ ...collapsed, [g.key]: !collapsed[g.key] })}
+        >
+          {collapsed[g.key] ? <IconChevronRight /> : <IconChevronDown />}
+          <Badge badgeContent={unread.length} color="primary">
+            <span className={styles.card_group_name}>{_(g.name)}</span>
+          </Badge>
+        </ListItemButton>
+        <Tooltip title={t`标记本组已读`}>
+          <span>
+            <IconButton
+              size="small"
+              disabled={unread.length === 0}
+              onClick={() => {
+                dispatch(toggleReadStates({ entries: toRefs(unread), state: true }));
+              }}
+            >
+              <IconEnvelopeOpen />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </ListSubheader>
+    );
+  };
+
+  const renderCard = (c: ContentInfo) => {
+    const index = shownCards.indexOf(c);
+    return (
+      <ContentCard
+        key={cardKey(c)}
+        type={c.type}
+        id={c.id}
+        selected={selectionMode && selected.has(cardKey(c))}
+        focused={cardKey(c) === focused}
+        onSelect={selectionMode ? (shiftKey) => onSelect(index, shiftKey) : undefined}
+      />
+    );
+  };
 
   return (
     <div
@@ -53,18 +265,100 @@ const CardList = () => {
       onScroll={(ev) => {
         const self = ev.target as HTMLDivElement;
         setOnTop(self.scrollTop === 0);
-
-        if (!canLoadMore) return;
-        const bottomLine = self.scrollTop + self.clientHeight;
-        if (bottomLine + 180 > self.scrollHeight) {
-          // 80 px on load more hint
-          dispatch(loadMoreCard());
-        }
       }}
       ref={scrollRef}
     >
       <List className={styles.card_list_inner} component="nav" subheader={<div />}>
-        {unreadFileCount !== 0 && (
+        {selectionMode && (
+          <ListSubheader
+            component="div"
+            className={cn(styles.card_list_header, styles.card_batch_bar)}
+          >
+            <span className={styles.card_batch_count}>
+              <Trans>已选择 {selectedCards.length.toString()} 项</Trans>
+            </span>
+            <Tooltip title={t`全选`}>
+              <IconButton
+                size="small"
+                onClick={() => setSelected(new Set(shownCards.map(cardKey)))}
+              >
+                <IconCheckDouble />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={t`标记为已读`}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={selectedCards.length === 0}
+                  onClick={() => {
+                    dispatch(toggleReadStates({ entries: toRefs(selectedCards), state: true }));
+                  }}
+                >
+                  <IconEnvelopeOpen />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title={t`标记为未读`}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={selectedCards.length === 0}
+                  onClick={() => {
+                    dispatch(toggleReadStates({ entries: toRefs(selectedCards), state: false }));
+                  }}
+                >
+                  <IconEnvelope />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title={t`设为星标`}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={selectedCards.length === 0}
+                  onClick={() => {
+                    dispatch(toggleStarStates({ entries: toRefs(selectedCards), state: true }));
+                  }}
+                >
+                  <IconStar />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title={t`忽略`}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={selectedCards.length === 0}
+                  onClick={() => {
+                    dispatch(toggleIgnoreStates({ entries: toRefs(selectedCards), state: true }));
+                    dispatch(refreshCardList());
+                  }}
+                >
+                  <IconEyeSlash />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title={t`下载选中的文件`}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={selectedFiles.length === 0}
+                  onClick={() => {
+                    dispatch(downloadFiles(selectedFiles));
+                  }}
+                >
+                  <IconDownload />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title={t`退出多选`}>
+              <IconButton size="small" onClick={() => dispatch(toggleSelectionMode(false))}>
+                <IconXmark />
+              </IconButton>
+            </Tooltip>
+          </ListSubheader>
+        )}
+        {!selectionMode && unreadFileCount !== 0 && (
           <ListSubheader
             component="div"
             className={cn(styles.card_list_header, styles.card_list_header_floating)}
@@ -81,27 +375,27 @@ const CardList = () => {
           </ListSubheader>
         )}
 
-        {filtered.map((c) => (
-          <ContentCard key={`${c.type}-${c.id}`} type={c.type} id={c.id} />
-        ))}
+        {pinnedGroup && (
+          <div className={styles.card_group_pinned}>{renderGroupHeader(pinnedGroup)}</div>
+        )}
+        <div ref={rowsRef} style={{ paddingTop, paddingBottom }}>
+          {renderedRows.map(({ index, key }) => {
+            const { group, content } = rows[index];
+            return (
+              <div key={key} data-key={key} ref={measure} className={styles.card_row}>
+                {content ? renderCard(content) : renderGroupHeader(group)}
+              </div>
+            );
+          })}
+        </div>
 
-        {filtered.length === 0 && (
+        {cards.length === 0 && (
           <ListItem disablePadding>
             <ListItemText sx={{ textAlign: 'center', opacity: 0.6 }}>
               <Trans>这里什么也没有</Trans>
             </ListItemText>
           </ListItem>
         )}
-
-        {canLoadMore && (
-          <ListItem disablePadding>
-            <ListItemButton onClick={() => dispatch(loadMoreCard())}>
-              <ListItemText sx={{ textAlign: 'center' }}>
-                <Trans>加载更多</Trans>
-              </ListItemText>
-            </ListItemButton>
-          </ListItem>
-        )}
       </List>
     </div>
   );
@@ -7,7 +7,9 @@ import {
   CardActionArea,
   CardActions,
   CardContent,
+  Checkbox,
   Chip,
+  CircularProgress,
   IconButton,
   Tooltip,
 } from '@mui/material';
@@ -19,30 +21,39 @@ import IconCheck from '~icons/fa6-solid/check';
 import IconClipboard from '~icons/fa6-solid/clipboard';
 import IconClipboardCheck from '~icons/fa6-solid/clipboard-check';
 import IconDownload from '~icons/fa6-solid/download';
+import IconNoteSticky from '~icons/fa6-solid/note-sticky';
 import IconPaperclip from '~icons/fa6-solid/paperclip';
 import IconStar from '~icons/fa6-solid/star';
 import IconTrash from '~icons/fa6-solid/trash';
 import IconTrashCan from '~icons/fa6-solid/trash-can';
 import IconUpload from '~icons/fa6-solid/upload';
 
-import { COURSE_MAIN_FUNC } from '../constants/ui';
+import { CARD_MAIN_FUNC } from '../constants/ui';
 import styles from '../css/card.module.css';
-import { toggleIgnoreState, toggleReadState, toggleStarState } from '../redux/actions';
+import { saveTodo, toggleIgnoreState, toggleReadState, toggleStarState } from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
-import type { SupportedContentType } from '../types/data';
+import type { CardContentType } from '../types/data';
 import { formatDate, formatHomeworkGradeLevel } from '../utils/format';
+import { progressPercent } from '../utils/progress';
+import SnoozeButton from './SnoozeButton';
 
 interface ContentCardProps {
-  type: SupportedContentType;
+  type: CardContentType;
   id: string;
+  // in selection mode, clicking the card selects it instead of opening it
+  selected?: boolean;
+  onSelect?: (shiftKey: boolean) => void;
+  // focused by keyboard navigation
+  focused?: boolean;
 }
 
-const ContentCard = ({ type, id }: ContentCardProps) => {
+const ContentCard = ({ type, id, selected, onSelect, focused }: ContentCardProps) => {
   const { _ } = useLingui();
   const dispatch = useAppDispatch();
   const [_location, navigate] = useLocation();
 
   const content = useAppSelector((state) => state.data[`${type}Map`][id]);
+  const hasNote = useAppSelector((state) => !!state.data.notes[`${type}-${id}`]);
 
   const onTitleClick = () => {
     switch (content.type) {
@@ -50,6 +61,7 @@ const ContentCard = ({ type, id }: ContentCardProps) => {
       case ContentType.FILE:
       case ContentType.NOTIFICATION:
       case ContentType.HOMEWORK:
+      case 'todo':
         navigate(`/content/${content.type}/${content.id}`);
         break;
       // navigate iframe in DetailPane to given url
@@ -63,41 +75,70 @@ const ContentCard = ({ type, id }: ContentCardProps) => {
   };
 
   const diffDays = Math.floor((content.date.getTime() - Date.now()) / (1000 * 3600 * 24));
+  const func = CARD_MAIN_FUNC[content.type];
+  // homework and to-dos share the chip showing days left
+  const withDeadline = content.type === ContentType.HOMEWORK || content.type === 'todo';
+  const finished =
+    content.type === ContentType.HOMEWORK
+      ? content.submitted
+      : content.type === 'todo' && content.done;
+  const progress =
+    content.type === ContentType.HOMEWORK && !content.submitted
+      ? progressPercent(content)
+      : undefined;
 
   return (
-    <Card className={styles.detail_card}>
-      <CardActionArea onClick={onTitleClick}>
+    <Card
+      className={classnames(styles.detail_card, { [styles.card_focused]: focused })}
+      raised={selected}
+    >
+      <CardActionArea onClick={(ev) => (onSelect ? onSelect(ev.shiftKey) : onTitleClick())}>
         <CardContent>
           <div className={styles.card_first_line}>
+            {onSelect && (
+              <Checkbox
+                className={styles.card_checkbox}
+                size="small"
+                checked={!!selected}
+                tabIndex={-1}
+                disableRipple
+              />
+            )}
             <Badge variant="dot" color="secondary" invisible={content.hasRead}>
               <Chip
                 avatar={
                   <Avatar className={styles.card_func_icon}>
-                    {content.type === ContentType.HOMEWORK && content.submitted ? (
-                      <IconCheck />
-                    ) : (
-                      COURSE_MAIN_FUNC[content.type].icon
+                    {finished ? <IconCheck /> : func.icon}
+                    {progress !== undefined && (
+                      <CircularProgress
+                        className={styles.card_progress_ring}
+                        variant="determinate"
+                        color="inherit"
+                        size={32}
+                        thickness={3}
+                        value={progress}
+                      />
                     )}
                   </Avatar>
                 }
                 label={
                   <div className={styles.card_chip_text}>
-                    {content.type === ContentType.HOMEWORK
+                    {withDeadline
                       ? diffDays > 99
                         ? '99+'
                         : diffDays < 0
-                          ? _(COURSE_MAIN_FUNC[content.type].name)
+                          ? _(func.name)
                           : diffDays.toString()
-                      : _(COURSE_MAIN_FUNC[content.type].name)}
+                      : _(func.name)}
                   </div>
                 }
                 className={classnames(
                   styles[
-                    content.type === ContentType.HOMEWORK
+                    withDeadline
                       ? `chip_homework_${
                           diffDays < 0
                             ? 'due'
-                            : content.submitted
+                            : finished
                               ? 'submitted'
                               : diffDays >= 10
                                 ? 'far'
@@ -114,8 +155,23 @@ const ContentCard = ({ type, id }: ContentCardProps) => {
               />
             </Badge>
             <span className={styles.card_title}>{content.title}</span>
+            {hasNote && (
+              <Tooltip title={t`有笔记`}>
+                <span className={styles.card_note_icon}>
+                  <IconNoteSticky />
+                </span>
+              </Tooltip>
+            )}
           </div>
 
+          {content.tags && (
+            <div className={styles.card_tags}>
+              {content.tags.map((tag) => (
+                <Chip key={tag} size="small" variant="outlined" label={tag} />
+              ))}
+            </div>
+          )}
+
           <div className={styles.card_second_line}>
             <span className={styles.card_status}>
               {formatDate(content.date)}
@@ -146,9 +202,13 @@ const ContentCard = ({ type, id }: ContentCardProps) => {
                           ? ` · ${t`最后回复:${content.lastReplierName}`}`
                           : ''
                       }`
-                    : null}
+                    : content.type === 'todo'
+                      ? ` · ${content.done ? t`已完成` : t`未完成`}`
+                      : null}
+            </span>
+            <span className={styles.card_course}>
+              {content.courseId && _({ id: `course-${content.courseId}` })}
             </span>
-            <span className={styles.card_course}>{_({ id: `course-${content.courseId}` })}</span>
           </div>
         </CardContent>
         <CardActions className={styles.card_action_line}>
@@ -209,6 +269,24 @@ const ContentCard = ({ type, id }: ContentCardProps) => {
               {content.ignored ? <IconTrash /> : <IconTrashCan />}
             </IconButton>
           </Tooltip>
+          <SnoozeButton content={content} />
+          {content.type === 'todo' && (
+            <Tooltip title={content.done ? t`标记为未完成` : t`标记为完成`}>
+              <IconButton
+                color="primary"
+                className={styles.card_action_button}
+                component="div"
+                onClick={(ev) => {
+                  dispatch(saveTodo({ ...content, done: !content.done }));
+                  ev.stopPropagation();
+                }}
+                onMouseDown={(ev) => ev.stopPropagation()}
+                size="small"
+              >
+                <IconCheck />
+              </IconButton>
+            </Tooltip>
+          )}
           {content.type === ContentType.HOMEWORK && (
             <Tooltip title={t`提交作业`}>
               <IconButton
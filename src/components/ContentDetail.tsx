@@ -2,13 +2,46 @@ import type { MessageDescriptor } from '@lingui/core';
 import { msg, t } from '@lingui/core/macro';
 import { useLingui } from '@lingui/react';
 import { Trans } from '@lingui/react/macro';
-import { Button, Paper } from '@mui/material';
+import {
+  Autocomplete,
+  Button,
+  Checkbox,
+  Chip,
+  IconButton,
+  Link,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
 import { type ReactNode, useState } from 'react';
 import { ContentType, type RemoteFile } from 'thu-learn-lib';
 import { useLocation } from 'wouter';
 
+import IconXmark from '~icons/fa6-solid/xmark';
+
 import styles from '../css/page.module.css';
-import type { ContentInfo, FileInfo, HomeworkInfo, NotificationInfo } from '../types/data';
+import {
+  refreshCardList,
+  removeTodo,
+  saveTodo,
+  setContentNote,
+  setContentTags,
+  setHomeworkProgress,
+  snoozeContent,
+  toggleTodoDialog,
+} from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectTagCounts } from '../redux/selectors';
+import type {
+  ContentInfo,
+  FileInfo,
+  HomeworkInfo,
+  HomeworkProgress,
+  HomeworkStatus,
+  NotificationInfo,
+  TodoInfo,
+} from '../types/data';
 import {
   formatDateTime,
   formatHomeworkCompletionType,
@@ -16,6 +49,9 @@ import {
   formatHomeworkSubmissionType,
   html2text,
 } from '../utils/format';
+import { renderMarkdown } from '../utils/markdown';
+import { EMPTY_PROGRESS, HOMEWORK_STATUSES, withTasks } from '../utils/progress';
+import { normalizeTags } from '../utils/tag';
 import IframeWrapper from './IframeWrapper';
 
 // const initialState = {
@@ -126,6 +162,87 @@ const FileDetails = ({ content: file }: ContentDetailProps<FileInfo>) => (
   </>
 );
 
+const ProgressEditor = ({ homework }: { homework: HomeworkInfo }) => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const [newTask, setNewTask] = useState('');
+
+  const progress = homework.progress ?? EMPTY_PROGRESS;
+  const save = (p: HomeworkProgress) =>
+    dispatch(setHomeworkProgress({ id: homework.id, progress: p }));
+
+  const addTask = () => {
+    const text = newTask.trim();
+    if (!text) return;
+    save(withTasks(progress, [...progress.tasks, { id: crypto.randomUUID(), text, done: false }]));
+    setNewTask('');
+  };
+
+  return (
+    <div className={styles.content_detail_progress}>
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        color="primary"
+        value={progress.status}
+        onChange={(_e, status: HomeworkStatus | null) => {
+          if (status) save({ ...progress, status });
+        }}
+      >
+        {(Object.keys(HOMEWORK_STATUSES) as HomeworkStatus[]).map((status) => (
+          <ToggleButton key={status} value={status}>
+            {_(HOMEWORK_STATUSES[status])}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      {progress.tasks.map((task) => (
+        <div key={task.id} className={styles.content_detail_task}>
+          <Checkbox
+            size="small"
+            checked={task.done}
+            onChange={(e) =>
+              save(
+                withTasks(
+                  progress,
+                  progress.tasks.map((t) =>
+                    t.id === task.id ? { ...t, done: e.target.checked } : t,
+                  ),
+                ),
+              )
+            }
+          />
+          <span className={task.done ? styles.content_detail_task_done : undefined}>
+            {task.text}
+          </span>
+          <IconButton
+            size="small"
+            onClick={() =>
+              save(
+                withTasks(
+                  progress,
+                  progress.tasks.filter((t) => t.id !== task.id),
+                ),
+              )
+            }
+          >
+            <IconXmark />
+          </IconButton>
+        </div>
+      ))}
+      <TextField
+        variant="standard"
+        size="small"
+        placeholder={t`添加子任务`}
+        value={newTask}
+        onChange={(e) => setNewTask(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.nativeEvent.isComposing) addTask();
+        }}
+      />
+    </div>
+  );
+};
+
 const HomeworkDetails = ({ content: homework }: ContentDetailProps<HomeworkInfo>) => {
   const { _ } = useLingui();
 
@@ -149,6 +266,9 @@ const HomeworkDetails = ({ content: homework }: ContentDetailProps<HomeworkInfo>
           {formatDateTime(homework.submitTime)}
         </Line>
       )}
+      <Line title={msg`完成进度：`}>
+        <ProgressEditor homework={homework} />
+      </Line>
       {submittedContent && <Line title={msg`提交内容：`}>{submittedContent}</Line>}
       {homework.submittedAttachment && (
         <FileLinks
@@ -220,8 +340,133 @@ const NotificationDetails = ({ content: notification }: ContentDetailProps<Notif
   </>
 );
 
+const TodoDetails = ({ content: todo }: ContentDetailProps<TodoInfo>) => {
+  const dispatch = useAppDispatch();
+  const [_location, navigate] = useLocation();
+
+  return (
+    <>
+      <Line title={msg`截止时间：`}>{formatDateTime(todo.deadline)}</Line>
+      <Line title={msg`创建时间：`}>{formatDateTime(todo.createdAt)}</Line>
+      <Line title={msg`完成状态：`}>
+        {todo.done ? <Trans>已完成</Trans> : <Trans>未完成</Trans>}{' '}
+        <Link component="button" onClick={() => dispatch(saveTodo({ ...todo, done: !todo.done }))}>
+          {todo.done ? <Trans>标记为未完成</Trans> : <Trans>标记为完成</Trans>}
+        </Link>
+      </Line>
+      <Line title={msg`待办操作：`}>
+        <Link component="button" onClick={() => dispatch(toggleTodoDialog(todo.id))}>
+          <Trans>编辑</Trans>
+        </Link>{' '}
+        <Link
+          component="button"
+          color="error"
+          onClick={() => {
+            dispatch(removeTodo(todo.id));
+            dispatch(refreshCardList());
+            navigate('/');
+          }}
+        >
+          <Trans>删除</Trans>
+        </Link>
+      </Line>
+    </>
+  );
+};
+
+const TagEditor = ({ content }: ContentDetailProps) => {
+  const dispatch = useAppDispatch();
+  const tagCounts = useAppSelector(selectTagCounts);
+  const filteringTag = useAppSelector((state) => state.ui.cardFilter.tag !== undefined);
+
+  return (
+    <Autocomplete
+      multiple
+      freeSolo
+      size="small"
+      options={tagCounts.map((tag) => tag.name)}
+      value={content.tags ?? []}
+      onChange={(_e, tags) => {
+        dispatch(setContentTags({ type: content.type, id: content.id, tags: normalizeTags(tags) }));
+        if (filteringTag) dispatch(refreshCardList());
+      }}
+      renderValue={(tags, getItemProps) =>
+        tags.map((tag, index) => {
+          const { key: _key, ...props } = getItemProps({ index });
+          return <Chip {...props} key={tag} size="small" label={tag} />;
+        })
+      }
+      renderInput={(params) => (
+        <TextField {...params} variant="standard" placeholder={t`添加标签`} />
+      )}
+    />
+  );
+};
+
+const NoteSection = ({ content }: ContentDetailProps) => {
+  const dispatch = useAppDispatch();
+  const note = useAppSelector((state) => state.data.notes[`${content.type}-${content.id}`]);
+  // the text being edited
+  const [draft, setDraft] = useState<string | undefined>();
+
+  const save = () => {
+    dispatch(setContentNote({ type: content.type, id: content.id, note: draft ?? '' }));
+    setDraft(undefined);
+  };
+
+  if (draft !== undefined) {
+    return (
+      <Paper className={styles.content_detail_content}>
+        <TextField
+          multiline
+          fullWidth
+          autoFocus
+          minRows={4}
+          placeholder={t`支持 Markdown 格式`}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <div className={styles.content_detail_note_actions}>
+          <Button color="primary" variant="contained" onClick={save}>
+            <Trans>保存笔记</Trans>
+          </Button>
+          <Button color="primary" onClick={() => setDraft(undefined)}>
+            <Trans>取消</Trans>
+          </Button>
+        </div>
+      </Paper>
+    );
+  }
+
+  if (!note) {
+    return (
+      <div className={styles.content_detail_content}>
+        <Button variant="outlined" onClick={() => setDraft('')}>
+          <Trans>添加笔记</Trans>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Paper className={styles.content_detail_content}>
+      <div className={styles.content_detail_note_actions}>
+        <span className={styles.content_detail_note_title}>
+          <Trans>我的笔记</Trans>
+        </span>
+        <Button size="small" color="primary" onClick={() => setDraft(note)}>
+          <Trans>编辑</Trans>
+        </Button>
+      </div>
+      {/* biome-ignore lint/security/noDangerouslySetInnerHtml: text is escaped by the renderer */}
+      <div dangerouslySetInnerHTML={{ __html: renderMarkdown(note) }} />
+    </Paper>
+  );
+};
+
 const ContentDetail = ({ content }: ContentDetailProps) => {
   const { _ } = useLingui();
+  const dispatch = useAppDispatch();
 
   const contentDetail =
     (content.type === ContentType.HOMEWORK
@@ -245,18 +490,42 @@ const ContentDetail = ({ content }: ContentDetailProps) => {
       <section className={styles.content_detail_lines}>
         <table>
           <tbody>
-            <Line title={msg`课程名称：`}>{_({ id: `course-${content.courseId}` })}</Line>
+            {content.courseId && (
+              <Line title={msg`课程名称：`}>{_({ id: `course-${content.courseId}` })}</Line>
+            )}
+            {content.snoozedUntil !== undefined && (
+              <Line title={msg`延后至：`}>
+                {formatDateTime(new Date(content.snoozedUntil))}{' '}
+                <Link
+                  component="button"
+                  onClick={() => {
+                    dispatch(snoozeContent({ type: content.type, id: content.id }));
+                    dispatch(refreshCardList());
+                  }}
+                >
+                  <Trans>取消延后</Trans>
+                </Link>
+              </Line>
+            )}
+            <Line title={msg`标签：`}>
+              <TagEditor content={content} />
+            </Line>
             {content.type === ContentType.FILE && <FileDetails content={content} />}
             {content.type === ContentType.HOMEWORK && <HomeworkDetails content={content} />}
             {content.type === ContentType.NOTIFICATION && <NotificationDetails content={content} />}
+            {content.type === 'todo' && <TodoDetails content={content} />}
           </tbody>
         </table>
       </section>
-      <Paper
-        className={styles.content_detail_content}
-        // biome-ignore lint/security/noDangerouslySetInnerHtml: no reason
-        dangerouslySetInnerHTML={{ __html: contentDetail }}
-      />
+      {/* to-dos have nothing but the note */}
+      {content.type !== 'todo' && (
+        <Paper
+          className={styles.content_detail_content}
+          // biome-ignore lint/security/noDangerouslySetInnerHtml: no reason
+          dangerouslySetInnerHTML={{ __html: contentDetail }}
+        />
+      )}
+      <NoteSection key={`${content.type}-${content.id}`} content={content} />
       {showPreviewFrame && !preview && (
         <Button variant="outlined" onClick={() => setPreview(true)}>
           <Trans>加载预览（{fileToPreview!.size}）</Trans>
@@ -18,7 +18,7 @@ import IconInbox from '~icons/fa6-solid/inbox';
 
 import { COURSE_FUNC_LIST } from '../constants/ui';
 import styles from '../css/list.module.css';
-import { refreshCardList, setCardFilter } from '../redux/actions';
+import { refresh, refreshCardList, setCardFilter } from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
 import { selectCourseList } from '../redux/selectors';
 
@@ -74,12 +74,14 @@ const CourseList = () => {
                     className={styles.sidebar_list_item}
                     key={func.name.id}
                     onClick={() => {
-                      if (func.type !== 'homepage') {
+                      if (func.type === 'homepage') {
+                        navigate(`/web/${encodeURIComponent(c.url)}`);
+                      } else if (func.type === 'refresh') {
+                        dispatch(refresh({ courseIds: [c.id] }));
+                      } else {
                         // show cards
                         dispatch(setCardFilter({ type: func.type, courseId: c.id }));
                         dispatch(refreshCardList());
-                      } else {
-                        navigate(`/web/${encodeURIComponent(c.url)}`);
                       }
                     }}
                   >
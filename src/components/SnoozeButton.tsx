@@ -0,0 +1,119 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { bindMenu, bindTrigger, usePopupState } from 'material-ui-popup-state/hooks';
+import { useState } from 'react';
+
+import IconClock from '~icons/fa6-solid/clock';
+
+import styles from '../css/card.module.css';
+import { refreshCardList, snoozeContent } from '../redux/actions';
+import { useAppDispatch } from '../redux/hooks';
+import type { ContentInfo } from '../types/data';
+import { toDateTimeInputValue } from '../utils/format';
+import { availablePresets } from '../utils/snooze';
+
+const SnoozeButton = ({ content }: { content: ContentInfo }) => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const popupState = usePopupState({ variant: 'popover', popupId: `snooze-${content.id}` });
+
+  const [custom, setCustom] = useState<string | undefined>();
+  const customTime = custom ? new Date(custom).getTime() : Number.NaN;
+
+  const snooze = (until: number) => {
+    dispatch(snoozeContent({ type: content.type, id: content.id, until }));
+    dispatch(refreshCardList());
+  };
+
+  return (
+    <>
+      <Tooltip title={t`延后`}>
+        <IconButton
+          color="primary"
+          className={styles.card_action_button}
+          component="div"
+          {...bindTrigger(popupState)}
+          onClick={(ev) => {
+            bindTrigger(popupState).onClick(ev);
+            ev.stopPropagation();
+          }}
+          onMouseDown={(ev) => ev.stopPropagation()}
+          size="small"
+        >
+          <IconClock />
+        </IconButton>
+      </Tooltip>
+      {/* events in portals still bubble to the card in the React tree */}
+      <Menu {...bindMenu(popupState)} onClick={(ev) => ev.stopPropagation()}>
+        {availablePresets(content).map(({ name, until }) => (
+          <MenuItem
+            key={name.id}
+            onClick={() => {
+              popupState.close();
+              snooze(until);
+            }}
+          >
+            {_(name)}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            popupState.close();
+            setCustom(toDateTimeInputValue(Date.now() + 24 * 60 * 60 * 1000));
+          }}
+        >
+          <Trans>选择时间…</Trans>
+        </MenuItem>
+      </Menu>
+      <Dialog
+        open={custom !== undefined}
+        onClose={() => setCustom(undefined)}
+        onClick={(ev) => ev.stopPropagation()}
+      >
+        <DialogTitle>
+          <Trans>延后至</Trans>
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            type="datetime-local"
+            variant="standard"
+            value={custom ?? ''}
+            onChange={(e) => setCustom(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button
+            color="primary"
+            disabled={!(customTime > Date.now())}
+            onClick={() => {
+              setCustom(undefined);
+              snooze(customTime);
+            }}
+          >
+            <Trans>确定</Trans>
+          </Button>
+          <Button color="primary" onClick={() => setCustom(undefined)}>
+            <Trans>取消</Trans>
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default SnoozeButton;
@@ -1,23 +1,30 @@
+import { t } from '@lingui/core/macro';
 import { useLingui } from '@lingui/react';
 import { Trans } from '@lingui/react/macro';
 import {
   Badge,
+  IconButton,
   List,
   ListItemButton,
   ListItemIcon,
   ListItemText,
   ListSubheader,
+  Tooltip,
 } from '@mui/material';
 import { useEffect, useMemo } from 'react';
 import { useLocation } from 'wouter';
 
+import IconArrowsRotate from '~icons/fa6-solid/arrows-rotate';
+import IconBookmark from '~icons/fa6-solid/bookmark';
 import IconThumbtack from '~icons/fa6-solid/thumbtack';
 
+import { SUPPORTED_CONTENT_TYPES } from '../constants';
 import { SUMMARY_FUNC_LIST } from '../constants/ui';
 import styles from '../css/list.module.css';
-import { refreshCardList, setCardFilter } from '../redux/actions';
+import { refresh, refreshCardList, setCardFilter } from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
-import { selectUnreadMap } from '../redux/selectors';
+import { selectUnreadMap, selectViewUnreadMap } from '../redux/selectors';
+import type { SupportedContentType } from '../types/data';
 
 const SummaryList = () => {
   const { _ } = useLingui();
@@ -25,6 +32,8 @@ const SummaryList = () => {
   const [_location, navigate] = useLocation();
 
   const unreadMap = useAppSelector(selectUnreadMap);
+  const customViews = useAppSelector((state) => state.data.customViews);
+  const viewUnreadMap = useAppSelector(selectViewUnreadMap);
   const unreadTotal = useMemo(
     () => Object.values(unreadMap).reduce((total, c) => total + c, 0),
     [unreadMap],
@@ -69,6 +78,42 @@ const SummaryList = () => {
           >
             <ListItemText className={styles.summary_list_item_text} primary={_(func.name)} />
           </Badge>
+          {SUPPORTED_CONTENT_TYPES.includes(func.type as SupportedContentType) && (
+            <Tooltip title={t`刷新此类内容`}>
+              <IconButton
+                component="div"
+                size="small"
+                className={styles.summary_list_item_refresh}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  dispatch(refresh({ types: [func.type as SupportedContentType] }));
+                }}
+              >
+                <IconArrowsRotate />
+              </IconButton>
+            </Tooltip>
+          )}
+        </ListItemButton>
+      ))}
+      {customViews.map((view) => (
+        <ListItemButton
+          className={styles.sidebar_list_item}
+          key={view.id}
+          onClick={() => {
+            dispatch(setCardFilter({ viewId: view.id }));
+            dispatch(refreshCardList());
+          }}
+        >
+          <ListItemIcon className={styles.list_item_icon}>
+            <IconBookmark />
+          </ListItemIcon>
+          <Badge
+            badgeContent={viewUnreadMap[view.id]}
+            color="primary"
+            invisible={!viewUnreadMap[view.id]}
+          >
+            <ListItemText className={styles.summary_list_item_text} primary={view.name} />
+          </Badge>
         </ListItemButton>
       ))}
     </List>
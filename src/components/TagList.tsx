@@ -0,0 +1,63 @@
+import { Trans } from '@lingui/react/macro';
+import {
+  Badge,
+  Divider,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+} from '@mui/material';
+
+import IconTag from '~icons/fa6-solid/tag';
+import IconTags from '~icons/fa6-solid/tags';
+
+import styles from '../css/list.module.css';
+import { refreshCardList, setCardFilter } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectTagCounts } from '../redux/selectors';
+
+const TagList = () => {
+  const dispatch = useAppDispatch();
+  const tagCounts = useAppSelector(selectTagCounts);
+
+  if (tagCounts.length === 0) return null;
+
+  return (
+    <>
+      <List
+        className={styles.numbered_list}
+        component="nav"
+        subheader={
+          <ListSubheader component="div" disableSticky className={styles.list_title_header}>
+            <IconTags />
+            <span className={styles.list_title}>
+              <Trans>标签</Trans>
+            </span>
+          </ListSubheader>
+        }
+      >
+        {tagCounts.map(({ name, count }) => (
+          <ListItemButton
+            className={styles.sidebar_list_item}
+            key={name}
+            onClick={() => {
+              dispatch(setCardFilter({ tag: name }));
+              dispatch(refreshCardList());
+            }}
+          >
+            <ListItemIcon className={styles.list_item_icon}>
+              <IconTag />
+            </ListItemIcon>
+            <Badge badgeContent={count} color="default">
+              <ListItemText className={styles.summary_list_item_text} primary={name} />
+            </Badge>
+          </ListItemButton>
+        ))}
+      </List>
+      <Divider />
+    </>
+  );
+};
+
+export default TagList;
@@ -46,7 +46,7 @@ const ChangeSemesterDialog = () => {
       <DialogContent>
         <span>
           <Trans>
-            切换学期将导致所有配置（隐藏）和状态（已读、星标）丢失，请三思！
+            切换学期后，当前学期的数据（包括已读、星标等状态）将被归档，切换回该学期时可以恢复。
             <br />
             当前 Learn Helper 学期：{formatSemesterId(semester)}
             <br />
@@ -30,7 +30,7 @@ const NewSemesterDialog = () => {
           <br />
           当前网络学堂学期：{formatSemester(fetchedSemester)}
           <br />
-          是否要进行学期切换（本学期已读、星标等状态将会被清空）？
+          是否要进行学期切换（本学期的数据将被归档，可随时从侧边栏的学期菜单中恢复）？
           <br />
           如果选择“否”，则在下一次打开 Learn Helper 前都将保持当前学期。
           <br />
@@ -0,0 +1,74 @@
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+} from '@mui/material';
+import { useLocation } from 'wouter';
+
+import styles from '../../css/page.module.css';
+import { toggleShortcutDialog } from '../../redux/actions';
+import { useAppDispatch, useAppSelector } from '../../redux/hooks';
+import { selectShortcuts } from '../../redux/selectors';
+import { SHORTCUT_ACTIONS, type ShortcutAction } from '../../utils/shortcut';
+
+const ShortcutDialog = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const [_location, navigate] = useLocation();
+
+  const open = useAppSelector((state) => state.ui.showShortcutDialog);
+  const shortcuts = useAppSelector(selectShortcuts);
+
+  const close = () => dispatch(toggleShortcutDialog(false));
+
+  return (
+    <Dialog open={open} onClose={close}>
+      <DialogTitle>
+        <Trans>键盘快捷键</Trans>
+      </DialogTitle>
+      <DialogContent>
+        <Table size="small">
+          <TableBody>
+            {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map((action) => (
+              <TableRow key={action}>
+                <TableCell>{_(SHORTCUT_ACTIONS[action].name)}</TableCell>
+                <TableCell>
+                  {shortcuts[action].split(' ').map((key, i) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: keys of a sequence may repeat
+                    <kbd key={i} className={styles.shortcut_key}>
+                      {key}
+                    </kbd>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          color="primary"
+          onClick={() => {
+            close();
+            navigate('/shortcuts');
+          }}
+        >
+          <Trans>自定义</Trans>
+        </Button>
+        <Button color="primary" onClick={close}>
+          <Trans>关闭</Trans>
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShortcutDialog;
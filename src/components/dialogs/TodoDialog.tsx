@@ -0,0 +1,154 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { useEffect, useId, useState } from 'react';
+
+import styles from '../../css/main.module.css';
+import { refreshCardList, saveTodo, setContentNote, toggleTodoDialog } from '../../redux/actions';
+import { useAppDispatch, useAppSelector } from '../../redux/hooks';
+import { selectCourseList } from '../../redux/selectors';
+import type { TodoInfo } from '../../types/data';
+import { toDateTimeInputValue } from '../../utils/format';
+
+// end of tomorrow
+const defaultDeadline = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(23, 59, 0, 0);
+  return date.getTime();
+};
+
+const TodoDialog = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+
+  const open = useAppSelector((state) => state.ui.showTodoDialog);
+  const todo = useAppSelector((state) =>
+    state.ui.editingTodo ? state.data.todoMap[state.ui.editingTodo] : undefined,
+  );
+  const note = useAppSelector((state) => (todo ? state.data.notes[`todo-${todo.id}`] : undefined));
+  const courses = useAppSelector(selectCourseList);
+  const filteredCourse = useAppSelector((state) => state.ui.cardFilter.courseId);
+
+  const [title, setTitle] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [noteText, setNoteText] = useState('');
+
+  // fill in the fields whenever the dialog is opened
+  useEffect(() => {
+    if (!open) return;
+    setTitle(todo?.title ?? '');
+    setCourseId((todo ? todo.courseId : filteredCourse) ?? '');
+    setDeadline(toDateTimeInputValue(todo?.deadline.getTime() ?? defaultDeadline()));
+    setNoteText(note ?? '');
+  }, [open, todo, note, filteredCourse]);
+
+  const deadlineTime = deadline ? new Date(deadline).getTime() : Number.NaN;
+  const valid = title.trim() !== '' && !Number.isNaN(deadlineTime);
+
+  const close = () => dispatch(toggleTodoDialog(false));
+
+  const save = () => {
+    const id = todo?.id ?? crypto.randomUUID();
+    const date = new Date(deadlineTime);
+    const saved: TodoInfo = {
+      hasRead: true,
+      starred: false,
+      ignored: false,
+      done: false,
+      createdAt: new Date(),
+      ...todo,
+      type: 'todo',
+      id,
+      title: title.trim(),
+      courseId: courseId || undefined,
+      deadline: date,
+      date,
+    };
+    dispatch(saveTodo(saved));
+    dispatch(setContentNote({ type: 'todo', id, note: noteText }));
+    dispatch(refreshCardList());
+    close();
+  };
+
+  const courseLabelId = useId();
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth="sm">
+      <DialogTitle>{todo ? <Trans>编辑待办</Trans> : <Trans>新建待办</Trans>}</DialogTitle>
+      <DialogContent>
+        <TextField
+          className={styles.form_control}
+          variant="standard"
+          fullWidth
+          autoFocus
+          label={t`标题`}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <FormControl className={styles.form_control} fullWidth variant="standard">
+          <InputLabel id={courseLabelId}>
+            <Trans>关联课程</Trans>
+          </InputLabel>
+          <Select
+            labelId={courseLabelId}
+            value={courseId}
+            onChange={(e) => setCourseId(e.target.value)}
+          >
+            <MenuItem value="">
+              <Trans>无</Trans>
+            </MenuItem>
+            {courses.map((c) => (
+              <MenuItem key={c.id} value={c.id}>
+                {_({ id: `course-${c.id}` })}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          className={styles.form_control}
+          variant="standard"
+          type="datetime-local"
+          label={t`截止时间`}
+          slotProps={{ inputLabel: { shrink: true } }}
+          value={deadline}
+          onChange={(e) => setDeadline(e.target.value)}
+        />
+        <TextField
+          className={styles.form_control}
+          variant="standard"
+          fullWidth
+          multiline
+          minRows={3}
+          label={t`笔记`}
+          placeholder={t`支持 Markdown 格式`}
+          value={noteText}
+          onChange={(e) => setNoteText(e.target.value)}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button color="primary" disabled={!valid} onClick={save}>
+          <Trans>保存</Trans>
+        </Button>
+        <Button color="primary" onClick={close}>
+          <Trans>取消</Trans>
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TodoDialog;
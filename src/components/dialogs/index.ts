@@ -3,3 +3,5 @@ export { default as ClearDataDialog } from './ClearDataDialog';
 export { default as LoginDialog } from './LoginDialog';
 export { default as LogoutDialog } from './LogoutDialog';
 export { default as NewSemesterDialog } from './NewSemesterDialog';
+export { default as ShortcutDialog } from './ShortcutDialog';
+export { default as TodoDialog } from './TodoDialog';
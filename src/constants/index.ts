@@ -1,10 +1,49 @@
+import { ContentType } from 'thu-learn-lib';
+
 export const STORAGE_KEY_VERSION = 'version';
 export const STORAGE_KEY_LANGUAGE = 'language';
 
 export const STORAGE_KEY_REDUX = 'data_redux';
 export const STORAGE_KEY_REDUX_LEGACY = 'persist:data_redux';
 
-export const CARD_BATCH_LOAD_SIZE = 10;
+// version of the stored data format, bump it when adding a migration
+export const SCHEMA_VERSION = 2;
 
 export const LEARN_TSINGHUA_LOGIN_URL =
   'https://id.tsinghua.edu.cn/do/off/ui/auth/login/form/bb5df85216504820be7bba2b0ae1535b/0';
+
+export const SYNC_ALARM_NAME = 'sync';
+export const SYNC_INTERVAL_MINUTES = 30;
+
+export const SUPPORTED_CONTENT_TYPES = [
+  ContentType.NOTIFICATION,
+  ContentType.FILE,
+  ContentType.HOMEWORK,
+  ContentType.DISCUSSION,
+  ContentType.QUESTION,
+] as const;
+
+// types of contents shown as cards, including those created by the user
+export const CARD_CONTENT_TYPES = [...SUPPORTED_CONTENT_TYPES, 'todo'] as const;
+
+// minutes before contents of each type are considered stale in periodic refreshing
+export const STALE_THRESHOLD_MINUTES = {
+  [ContentType.NOTIFICATION]: 30,
+  [ContentType.FILE]: 120,
+  [ContentType.HOMEWORK]: 30,
+  [ContentType.DISCUSSION]: 240,
+  [ContentType.QUESTION]: 240,
+} as const;
+
+// failed fetches are retried with exponential backoff (1s, 2s, 4s)
+export const FETCH_MAX_RETRIES = 3;
+export const FETCH_RETRY_DELAY_MS = 1000;
+
+// oldest entries are dropped when the change log grows larger
+export const CHANGE_LOG_MAX_SIZE = 1000;
+// and so for the log of automatic rules
+export const RULE_LOG_MAX_SIZE = 500;
+
+// changes of data within this period are saved together, kept short as changes not yet saved
+// may be lost if the page is closed
+export const STORE_DEBOUNCE_MS = 500;
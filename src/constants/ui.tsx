@@ -3,19 +3,29 @@ import { ContentType } from 'thu-learn-lib';
 
 import IconArrowsRotate from '~icons/fa6-solid/arrows-rotate';
 import IconBan from '~icons/fa6-solid/ban';
+import IconBell from '~icons/fa6-solid/bell';
 import IconBullhorn from '~icons/fa6-solid/bullhorn';
 import IconChalkboardUser from '~icons/fa6-solid/chalkboard-user';
-import IconCircleInfo from '~icons/fa6-solid/circle-info';
 import IconChartColumn from '~icons/fa6-solid/chart-column';
+import IconCircleInfo from '~icons/fa6-solid/circle-info';
+import IconClipboardList from '~icons/fa6-solid/clipboard-list';
+import IconClockRotateLeft from '~icons/fa6-solid/clock-rotate-left';
 import IconDownload from '~icons/fa6-solid/download';
 import IconEnvelopeOpen from '~icons/fa6-solid/envelope-open';
+import IconFloppyDisk from '~icons/fa6-solid/floppy-disk';
 import IconHouse from '~icons/fa6-solid/house';
+import IconKeyboard from '~icons/fa6-solid/keyboard';
+import IconListCheck from '~icons/fa6-solid/list-check';
+import IconMagnifyingGlass from '~icons/fa6-solid/magnifying-glass';
 import IconPencil from '~icons/fa6-solid/pencil';
 import IconQuestion from '~icons/fa6-solid/question';
 import IconShuffle from '~icons/fa6-solid/shuffle';
+import IconSliders from '~icons/fa6-solid/sliders';
+import IconTags from '~icons/fa6-solid/tags';
 import IconTrash from '~icons/fa6-solid/trash';
 import IconUpRightFromSquare from '~icons/fa6-solid/up-right-from-square';
 import IconUser from '~icons/fa6-solid/user';
+import IconWandMagicSparkles from '~icons/fa6-solid/wand-magic-sparkles';
 
 import {
   markAllRead,
@@ -26,7 +36,14 @@ import {
 } from '../redux/actions';
 import type { AppDispatch } from '../redux/store';
 
-export type TUIFunc = ContentType | 'summary' | 'ignored' | 'homepage' | 'analytics';
+export type TUIFunc =
+  | ContentType
+  | 'summary'
+  | 'ignored'
+  | 'homepage'
+  | 'analytics'
+  | 'activity'
+  | 'search';
 
 export const UI_NAME_SUMMARY = {
   summary: msg`主页`,
@@ -46,6 +63,7 @@ export const UI_NAME_COURSE = {
   [ContentType.DISCUSSION]: msg`课程讨论`,
   [ContentType.QUESTION]: msg`课程答疑`,
   homepage: msg`课程主页`,
+  refresh: msg`刷新课程`,
 } as const;
 
 export const COURSE_MAIN_FUNC = {
@@ -76,6 +94,16 @@ export const COURSE_MAIN_FUNC = {
   },
 } as const;
 
+// all types of cards, including to-dos created by the user
+export const CARD_MAIN_FUNC = {
+  ...COURSE_MAIN_FUNC,
+  todo: {
+    type: 'todo',
+    icon: <IconListCheck />,
+    name: msg`待办`,
+  },
+} as const;
+
 export const COURSE_FUNC_LIST = [
   {
     type: undefined,
@@ -107,6 +135,11 @@ export const COURSE_FUNC_LIST = [
     icon: <IconUpRightFromSquare />,
     name: UI_NAME_COURSE.homepage,
   },
+  {
+    type: 'refresh',
+    icon: <IconArrowsRotate />,
+    name: UI_NAME_COURSE.refresh,
+  },
 ] as const;
 
 export const SUMMARY_FUNC_LIST = [
@@ -118,6 +151,22 @@ export const SUMMARY_FUNC_LIST = [
       navigate('/analytics');
     },
   },
+  {
+    type: 'search',
+    icon: <IconMagnifyingGlass />,
+    name: msg`全文搜索`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/search');
+    },
+  },
+  {
+    type: 'activity',
+    icon: <IconClockRotateLeft />,
+    name: msg`动态`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/activity');
+    },
+  },
   {
     type: undefined,
     icon: <IconHouse />,
@@ -158,6 +207,41 @@ export const SETTINGS_FUNC_LIST = [
       navigate('/settings');
     },
   },
+  {
+    icon: <IconSliders />,
+    name: msg`自定义视图`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/views');
+    },
+  },
+  {
+    icon: <IconTags />,
+    name: msg`管理标签`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/tags');
+    },
+  },
+  {
+    icon: <IconWandMagicSparkles />,
+    name: msg`自动规则`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/rules');
+    },
+  },
+  {
+    icon: <IconBell />,
+    name: msg`通知设置`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/notify');
+    },
+  },
+  {
+    icon: <IconKeyboard />,
+    name: msg`键盘快捷键`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/shortcuts');
+    },
+  },
   {
     icon: <IconEnvelopeOpen />,
     name: msg`全部标记已读`,
@@ -172,6 +256,20 @@ export const SETTINGS_FUNC_LIST = [
       dispatch(refresh());
     },
   },
+  {
+    icon: <IconClipboardList />,
+    name: msg`同步报告`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/report');
+    },
+  },
+  {
+    icon: <IconFloppyDisk />,
+    name: msg`备份与恢复`,
+    handler: (_dispatch: AppDispatch, navigate: (path: string) => void) => {
+      navigate('/backup');
+    },
+  },
   {
     icon: <IconShuffle />,
     name: msg`切换学期`,
@@ -10,6 +10,7 @@ import {
   LinearProgress,
   ListItemIcon,
   ListItemText,
+  ListSubheader,
   Menu,
   MenuItem,
   AppBar as MuiAppBar,
@@ -25,7 +26,9 @@ import { ErrorBoundary, type FallbackProps } from 'react-error-boundary';
 import { Route, Switch, useLocation } from 'wouter';
 
 import IconAngleLeft from '~icons/fa6-solid/angle-left';
+import IconArrowDownWideShort from '~icons/fa6-solid/arrow-down-wide-short';
 import IconBars from '~icons/fa6-solid/bars';
+import IconBoxArchive from '~icons/fa6-solid/box-archive';
 import IconCircleHalfStroke from '~icons/fa6-solid/circle-half-stroke';
 import IconFilter from '~icons/fa6-solid/filter';
 import IconLanguage from '~icons/fa6-solid/language';
@@ -41,29 +44,60 @@ import {
   LoginDialog,
   LogoutDialog,
   NewSemesterDialog,
+  ShortcutDialog,
+  TodoDialog,
 } from '../components/dialogs';
 import SettingList from '../components/SettingList';
 import SummaryList from '../components/SummaryList';
+import TagList from '../components/TagList';
 import styles from '../css/main.module.css';
 import type { Language } from '../i18n';
 import {
+  expireMuteRules,
   loadApp,
+  refreshCardList,
   resetApp,
-  setTitleFilter,
+  restoreArchivedSemester,
+  setCardFilter,
+  setCardGrouping,
+  setSearchQuery,
+  setSortStrategy,
   syncLanguage,
   toggleChangeSemesterDialog,
   togglePaneHidden,
+  toggleSelectionMode,
+  toggleShortcutDialog,
+  toggleTodoDialog,
   tryLoginSilently,
+  wakeSnoozed,
 } from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
-import { selectCardListTitle } from '../redux/selectors';
+import {
+  selectArchivedSemesters,
+  selectCardListTitle,
+  selectCourseList,
+  selectSearchQuery,
+  selectShortcuts,
+} from '../redux/selectors';
 import type { ColorMode } from '../types/ui';
 import { interceptCsrfRequest } from '../utils/csrf';
 import { formatSemester } from '../utils/format';
+import { CARD_GROUPINGS, type CardGrouping } from '../utils/group';
+import { createShortcutMatcher, getShortcutHandler, useShortcutHandlers } from '../utils/shortcut';
+import { cardFilterKey, SORT_STRATEGIES, type SortStrategy } from '../utils/sort';
+import ActivityTimeline from './activity';
+import Analytics from './analytics';
+import BackupSetting from './backup';
 import Content from './content';
 import Doc from './doc/_doc';
+import NotifySetting from './notify';
+import SyncReportView from './report';
+import RuleSetting from './rules';
+import ContentSearch from './search';
 import ContentIgnoreSetting from './settings';
-import Analytics from './analytics';
+import ShortcutSetting from './shortcuts';
+import TagSetting from './tags';
+import CustomViewSetting from './views';
 import Web from './web';
 import Welcome from './welcome';
 
@@ -173,17 +207,137 @@ const AppBar = () => {
   );
 };
 
+const SemesterMenu = () => {
+  const dispatch = useAppDispatch();
+  const popupState = usePopupState({ variant: 'popover', popupId: 'semesterMenu' });
+  const semester = useAppSelector((state) => state.data.semester);
+  const archived = useAppSelector(selectArchivedSemesters);
+
+  return (
+    <>
+      <Typography
+        variant="subtitle1"
+        className={classnames(styles.sidebar_master_title, styles.sidebar_master_title_button)}
+        noWrap
+        {...bindTrigger(popupState)}
+      >
+        {formatSemester(semester)}
+      </Typography>
+      <Menu {...bindMenu(popupState)}>
+        <MenuItem selected disabled>
+          <ListItemText>{formatSemester(semester)}</ListItemText>
+        </MenuItem>
+        <Divider />
+        {archived.length === 0 ? (
+          <MenuItem disabled>
+            <ListItemText>
+              <Trans>暂无已归档的学期</Trans>
+            </ListItemText>
+          </MenuItem>
+        ) : (
+          archived.map((s) => (
+            <MenuItem
+              key={s.id}
+              onClick={() => {
+                dispatch(restoreArchivedSemester(s));
+                popupState.close();
+              }}
+            >
+              <ListItemIcon>
+                <IconBoxArchive />
+              </ListItemIcon>
+              <ListItemText>{formatSemester(s)}</ListItemText>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  );
+};
+
+const CardListMenu = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const popupState = usePopupState({ variant: 'popover', popupId: 'cardListMenu' });
+  const key = useAppSelector((state) => cardFilterKey(state.ui.cardFilter));
+  const strategy = useAppSelector((state) => state.data.sortStrategies[key] ?? 'default');
+  const grouping = useAppSelector((state) => state.data.cardGrouping);
+  const selectionMode = useAppSelector((state) => state.ui.selectionMode);
+
+  const handleSort = (s: SortStrategy) => {
+    dispatch(setSortStrategy({ key, strategy: s }));
+    dispatch(refreshCardList());
+    popupState.close();
+  };
+  const handleGroup = (g: CardGrouping) => {
+    dispatch(setCardGrouping(g));
+    popupState.close();
+  };
+
+  return (
+    <>
+      <Tooltip title={t`排序与分组`}>
+        <IconButton className={styles.sidebar_sort_btn} size="large" {...bindTrigger(popupState)}>
+          <IconArrowDownWideShort />
+        </IconButton>
+      </Tooltip>
+      <Menu {...bindMenu(popupState)}>
+        <ListSubheader>
+          <Trans>排序方式</Trans>
+        </ListSubheader>
+        {(Object.keys(SORT_STRATEGIES) as SortStrategy[]).map((s) => (
+          <MenuItem key={s} selected={s === strategy} onClick={() => handleSort(s)}>
+            <ListItemText>{_(SORT_STRATEGIES[s].name)}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <ListSubheader>
+          <Trans>分组方式</Trans>
+        </ListSubheader>
+        {(Object.keys(CARD_GROUPINGS) as CardGrouping[]).map((g) => (
+          <MenuItem key={g} selected={g === grouping} onClick={() => handleGroup(g)}>
+            <ListItemText>{_(CARD_GROUPINGS[g])}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          selected={selectionMode}
+          onClick={() => {
+            dispatch(toggleSelectionMode(!selectionMode));
+            popupState.close();
+          }}
+        >
+          <ListItemText>
+            <Trans>多选</Trans>
+          </ListItemText>
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            dispatch(toggleTodoDialog(true));
+            popupState.close();
+          }}
+        >
+          <ListItemText>
+            <Trans>新建待办</Trans>
+          </ListItemText>
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
 const AppDrawer = () => {
   const { _ } = useLingui();
   const dispatch = useAppDispatch();
 
   const paneHidden = useAppSelector((state) => state.ui.paneHidden);
   const cardListTitle = useAppSelector(selectCardListTitle);
-  const semesterTitle = useAppSelector((state) => formatSemester(state.data.semester));
   const isLatestSemester = useAppSelector(
     (state) => state.data.semester.id === state.data.fetchedSemester.id,
   );
 
+  const invalidTerms = useAppSelector((state) => selectSearchQuery(state).invalid);
+
   const inputRef = useRef<HTMLInputElement>(null);
   const [filterShown, setFilterShown] = useState(false);
   const [filter, setFilter] = useState('');
@@ -192,13 +346,20 @@ const AppDrawer = () => {
     if (filterShown) {
       setFilterShown(false);
       setFilter('');
-      dispatch(setTitleFilter(undefined));
+      dispatch(setSearchQuery(undefined));
     } else {
       setTimeout(() => inputRef.current?.focus(), 250);
       setFilterShown(true);
     }
   };
 
+  useShortcutHandlers({
+    focusFilter: () => {
+      if (filterShown) inputRef.current?.focus();
+      else toggleFilter();
+    },
+  });
+
   return (
     <Drawer className={styles.sidebar} variant="persistent" anchor="left" open={!paneHidden}>
       <nav className={styles.sidebar_wrapper}>
@@ -212,9 +373,7 @@ const AppDrawer = () => {
               >
                 <IconAngleLeft />
               </IconButton>
-              <Typography variant="subtitle1" className={styles.sidebar_master_title} noWrap>
-                {semesterTitle}
-              </Typography>
+              <SemesterMenu />
               {!isLatestSemester && (
                 <Tooltip title={t`非网络学堂当前学期`}>
                   <IconButton
@@ -236,6 +395,7 @@ const AppDrawer = () => {
                 {cardListTitle.map((part) => _(part)).join('-')}
               </Typography>
 
+              <CardListMenu />
               <div className={styles.sidebar_filter_group}>
                 <IconButton
                   className={classnames(styles.filter_btn)}
@@ -246,21 +406,30 @@ const AppDrawer = () => {
                 </IconButton>
                 {filterShown && (
                   <div>
-                    <InputBase
-                      inputRef={inputRef}
-                      className={styles.filter_input_inner}
-                      placeholder={t`筛选`}
-                      value={filter}
-                      onChange={(ev) => {
-                        setFilter(ev.target.value);
-                        dispatch(setTitleFilter(ev.target.value.trim() || undefined));
-                      }}
-                      inputProps={{
-                        onBlur: () => {
-                          if (!filterShown && filter === '') setFilterShown(false);
-                        },
-                      }}
-                    />
+                    <Tooltip
+                      title={
+                        invalidTerms.length !== 0
+                          ? t`无法识别的条件：${invalidTerms.join(' ')}`
+                          : t`支持 course:、type:、is:unread、due:<7d、before:、after:、publisher:、tag: 等条件，以 - 开头表示排除`
+                      }
+                    >
+                      <InputBase
+                        inputRef={inputRef}
+                        className={styles.filter_input_inner}
+                        placeholder={t`筛选`}
+                        value={filter}
+                        error={invalidTerms.length !== 0}
+                        onChange={(ev) => {
+                          setFilter(ev.target.value);
+                          dispatch(setSearchQuery(ev.target.value.trim() || undefined));
+                        }}
+                        inputProps={{
+                          onBlur: () => {
+                            if (!filterShown && filter === '') setFilterShown(false);
+                          },
+                        }}
+                      />
+                    </Tooltip>
                   </div>
                 )}
               </div>
@@ -271,6 +440,7 @@ const AppDrawer = () => {
           <nav className={classnames(styles.sidebar_component, styles.sidebar_folder)}>
             <SummaryList />
             <Divider />
+            <TagList />
             <CourseList />
             <Divider />
             <SettingList />
@@ -342,9 +512,39 @@ const App = () => {
   const loadingProgress = useAppSelector((state) => state.ui.loadingProgress);
   const paneHidden = useAppSelector((state) => state.ui.paneHidden);
   const csrf = useAppSelector((state) => state.helper.helper.getCSRFToken());
+  const shortcuts = useAppSelector(selectShortcuts);
+  const courses = useAppSelector(selectCourseList);
+  const cardFilter = useAppSelector((state) => state.ui.cardFilter);
 
   const [_, navigate] = useLocation();
 
+  useShortcutHandlers({
+    goHome: () => {
+      navigate('/');
+      dispatch(setCardFilter({}));
+      dispatch(refreshCardList());
+    },
+    nextCourse: () => {
+      if (courses.length === 0) return false;
+      const index = courses.findIndex((c) => c.id === cardFilter.courseId);
+      const type = cardFilter.type === 'ignored' ? undefined : cardFilter.type;
+      dispatch(setCardFilter({ type, courseId: courses[(index + 1) % courses.length].id }));
+      dispatch(refreshCardList());
+    },
+    showHelp: () => dispatch(toggleShortcutDialog(true)),
+  });
+
+  useEffect(() => {
+    const match = createShortcutMatcher();
+    const onKeyDown = (ev: KeyboardEvent) => {
+      const action = match(ev, shortcuts);
+      const handler = action && getShortcutHandler(action);
+      if (handler && handler() !== false) ev.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shortcuts]);
+
   useEffect(() => {
     dispatch(loadApp()).then((res) => {
       if (res.navigate) {
@@ -356,6 +556,15 @@ const App = () => {
     return () => window.clearInterval(handle);
   }, [dispatch, navigate]);
 
+  useEffect(() => {
+    // bring back snoozed and muted contents on time
+    const handle = window.setInterval(() => {
+      dispatch(wakeSnoozed());
+      dispatch(expireMuteRules());
+    }, 60 * 1000);
+    return () => window.clearInterval(handle);
+  }, [dispatch]);
+
   useEffect(() => {
     interceptCsrfRequest(csrf);
   }, [csrf]);
@@ -389,7 +598,16 @@ const App = () => {
             <Switch>
               <Route path="/" component={Welcome} />
               <Route path="/settings" component={ContentIgnoreSetting} />
+              <Route path="/notify" component={NotifySetting} />
+              <Route path="/report" component={SyncReportView} />
+              <Route path="/backup" component={BackupSetting} />
               <Route path="/analytics" component={Analytics} />
+              <Route path="/activity" component={ActivityTimeline} />
+              <Route path="/search" component={ContentSearch} />
+              <Route path="/views" component={CustomViewSetting} />
+              <Route path="/shortcuts" component={ShortcutSetting} />
+              <Route path="/tags" component={TagSetting} />
+              <Route path="/rules" component={RuleSetting} />
               <Route path="/web/:url" component={Web} />
               <Route path="/content/:type/:id" component={Content} />
               <Route path="/doc" nest component={Doc} />
@@ -401,6 +619,8 @@ const App = () => {
           <ChangeSemesterDialog />
           <ClearDataDialog />
           <LogoutDialog />
+          <ShortcutDialog />
+          <TodoDialog />
         </main>
       </StrictMode>
     </ErrorBoundary>
@@ -0,0 +1,143 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg, t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+} from '@mui/material';
+import { useState } from 'react';
+import type { HomeworkGradeLevel } from 'thu-learn-lib';
+import { useLocation } from 'wouter';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import { useAppSelector } from '../redux/hooks';
+import type { ChangeLogEntry, ChangeValue } from '../redux/reducers/data';
+import { selectCourseList } from '../redux/selectors';
+import type { SupportedContentType } from '../types/data';
+import { CREATED_FIELD, type FieldKind, TRACKED_FIELDS } from '../utils/changelog';
+import { formatDateTime, formatHomeworkGradeLevel } from '../utils/format';
+import { contentPath } from '../utils/notify';
+
+const FIELD_NAMES: Record<string, MessageDescriptor> = {
+  [CREATED_FIELD]: msg`新发布`,
+  title: msg`标题`,
+  content: msg`内容`,
+  expireTime: msg`过期时间`,
+  description: msg`描述`,
+  size: msg`大小`,
+  deadline: msg`截止时间`,
+  lateSubmissionDeadline: msg`补交截止时间`,
+  grade: msg`成绩`,
+  gradeLevel: msg`成绩等级`,
+  gradeContent: msg`评语`,
+  replyCount: msg`回复数`,
+};
+
+const ALL = 'all';
+
+const ActivityTimeline = () => {
+  const { _ } = useLingui();
+  const [_location, navigate] = useLocation();
+  const courses = useAppSelector(selectCourseList);
+  const changeLog = useAppSelector((state) => state.data.changeLog);
+
+  const [courseId, setCourseId] = useState<string>(ALL);
+  const [type, setType] = useState<SupportedContentType | typeof ALL>(ALL);
+
+  const entries = changeLog.filter(
+    (e) => (courseId === ALL || e.courseId === courseId) && (type === ALL || e.type === type),
+  );
+
+  const formatValue = (kind: FieldKind, value: ChangeValue) => {
+    if (value === null) return t`无`;
+    switch (kind) {
+      case 'date':
+        return formatDateTime(new Date(value));
+      case 'gradeLevel':
+        return _(formatHomeworkGradeLevel(value as HomeworkGradeLevel));
+      default:
+        return value.toString();
+    }
+  };
+
+  const describe = (e: ChangeLogEntry) => {
+    const field = _(FIELD_NAMES[e.field] ?? { id: e.field });
+    const kind = TRACKED_FIELDS[e.type][e.field];
+    if (!kind || kind === 'html') return field;
+    return `${field}：${formatValue(kind, e.oldValue)} → ${formatValue(kind, e.newValue)}`;
+  };
+
+  return (
+    <section className={styles.activity}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>动态</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>刷新时检测到的新内容与内容变化（如截止时间、成绩的修改）将记录在此处。</Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <Select size="small" value={courseId} onChange={(e) => setCourseId(e.target.value)}>
+            <MenuItem value={ALL}>
+              <Trans>所有课程</Trans>
+            </MenuItem>
+            {courses.map((c) => (
+              <MenuItem key={c.id} value={c.id}>
+                {_({ id: `course-${c.id}` })}
+              </MenuItem>
+            ))}
+          </Select>
+          <Select
+            size="small"
+            value={type}
+            onChange={(e) => setType(e.target.value as SupportedContentType | typeof ALL)}
+          >
+            <MenuItem value={ALL}>
+              <Trans>所有类型</Trans>
+            </MenuItem>
+            {Object.values(COURSE_MAIN_FUNC).map((func) => (
+              <MenuItem key={func.type} value={func.type}>
+                {_(func.name)}
+              </MenuItem>
+            ))}
+          </Select>
+        </div>
+        <Paper>
+          {entries.length === 0 ? (
+            <div className={styles.activity_empty}>
+              <Trans>暂无动态</Trans>
+            </div>
+          ) : (
+            <List disablePadding>
+              {entries.map((e) => (
+                <ListItemButton
+                  key={e.id}
+                  onClick={() => navigate(contentPath(e.type, e.contentId))}
+                >
+                  <ListItemIcon className={styles.activity_icon}>
+                    {COURSE_MAIN_FUNC[e.type].icon}
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${e.title} · ${describe(e)}`}
+                    secondary={`${formatDateTime(new Date(e.detectedAt))} · ${_({
+                      id: `course-${e.courseId}`,
+                    })}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </section>
+    </section>
+  );
+};
+
+export default ActivityTimeline;
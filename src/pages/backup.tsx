@@ -0,0 +1,174 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  useColorScheme,
+} from '@mui/material';
+import { enqueueSnackbar } from 'notistack';
+import { type ChangeEvent, useState } from 'react';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import { exportBackup, restoreBackup } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import {
+  type Backup,
+  type BackupPreview,
+  type ContentFlags,
+  parseBackup,
+  previewBackup,
+} from '../utils/backup';
+import { formatDateTime } from '../utils/format';
+
+const formatFlags = (flags: ContentFlags) => {
+  const names = [
+    flags.hasRead && t`已读`,
+    flags.starred && t`星标`,
+    flags.ignored && t`隐藏`,
+  ].filter(Boolean);
+  return names.length === 0 ? t`无` : names.join(t`、`);
+};
+
+const BackupSetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const { mode, setMode } = useColorScheme();
+  const data = useAppSelector((state) => state.data);
+
+  const [backup, setBackup] = useState<Backup>();
+  const [preview, setPreview] = useState<BackupPreview>();
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // allow choosing the same file again
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseBackup(await file.text());
+    if (!parsed) {
+      enqueueSnackbar(t`无法识别的备份文件`, { variant: 'error' });
+      return;
+    }
+    setBackup(parsed);
+    setPreview(previewBackup(data, parsed));
+  };
+
+  const handleImport = async (overwrite: boolean) => {
+    if (!backup || !preview) return;
+    await dispatch(restoreBackup(backup, preview, overwrite));
+    if (backup.colorMode) setMode(backup.colorMode);
+    setBackup(undefined);
+    setPreview(undefined);
+  };
+
+  return (
+    <section className={styles.backup}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>备份与恢复</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          备份包含内容的已读、星标、隐藏状态，隐藏的课程内容类型，以及语言、外观等偏好设置，不包含登录凭据。
+          <br />
+          导入时将与当前状态合并，尚未获取的课程内容将在获取后恢复其状态。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <Button
+            color="primary"
+            variant="contained"
+            onClick={() => {
+              dispatch(exportBackup(mode ?? 'system'));
+            }}
+          >
+            <Trans>导出备份</Trans>
+          </Button>
+          <Button color="primary" variant="outlined" component="label">
+            <Trans>导入备份</Trans>
+            <input type="file" accept="application/json,.json" hidden onChange={handleFile} />
+          </Button>
+        </div>
+        {backup && preview && (
+          <div className={styles.backup_preview}>
+            <header className={styles.ignore_setting_description}>
+              <Trans>
+                备份导出于 {formatDateTime(new Date(backup.exportedAt))}，将恢复{' '}
+                {preview.changes.length} 项内容的状态，{preview.missing.length}{' '}
+                项尚未获取的内容将在获取后恢复，以下 {preview.conflicts.length}{' '}
+                项内容的状态与当前不同。
+              </Trans>
+            </header>
+            {preview.conflicts.length !== 0 && (
+              <Paper>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>
+                        <Trans>标题</Trans>
+                      </TableCell>
+                      <TableCell align="center">
+                        <Trans>类型</Trans>
+                      </TableCell>
+                      <TableCell align="center">
+                        <Trans>当前状态</Trans>
+                      </TableCell>
+                      <TableCell align="center">
+                        <Trans>备份中的状态</Trans>
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.conflicts.map((c) => (
+                      <TableRow key={`${c.type}-${c.id}`}>
+                        <TableCell component="th" scope="row">
+                          {c.title}
+                        </TableCell>
+                        <TableCell align="center">{_(COURSE_MAIN_FUNC[c.type].name)}</TableCell>
+                        <TableCell align="center">{formatFlags(c.current)}</TableCell>
+                        <TableCell align="center">{formatFlags(c.flags)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Paper>
+            )}
+            <div className={styles.ignore_setting_reset_button}>
+              <div className={styles.notify_setting_switches}>
+                <Button color="primary" variant="contained" onClick={() => handleImport(false)}>
+                  {preview.conflicts.length === 0 ? (
+                    <Trans>导入</Trans>
+                  ) : (
+                    <Trans>导入并保留当前状态</Trans>
+                  )}
+                </Button>
+                {preview.conflicts.length !== 0 && (
+                  <Button color="primary" variant="contained" onClick={() => handleImport(true)}>
+                    <Trans>导入并使用备份中的状态</Trans>
+                  </Button>
+                )}
+                <Button
+                  color="primary"
+                  onClick={() => {
+                    setBackup(undefined);
+                    setPreview(undefined);
+                  }}
+                >
+                  <Trans>取消</Trans>
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+    </section>
+  );
+};
+
+export default BackupSetting;
@@ -0,0 +1,248 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Chip,
+  FormControlLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material';
+import { useState } from 'react';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import {
+  addReminderOffset,
+  removeReminderOffset,
+  toggleLateSubmissionReminder,
+  toggleNotifyCourse,
+  toggleNotifyEnabled,
+  toggleNotifyGrouped,
+  toggleNotifyType,
+  toggleReminderEnabled,
+} from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectCourseList } from '../redux/selectors';
+
+const OFFSET_UNITS = [1, 60, 24 * 60] as const;
+
+const formatOffset = (offset: number) => {
+  if (offset % (24 * 60) === 0) return t`${offset / (24 * 60)} 天`;
+  if (offset % 60 === 0) return t`${offset / 60} 小时`;
+  return t`${offset} 分钟`;
+};
+
+const ReminderSetting = () => {
+  const dispatch = useAppDispatch();
+  const settings = useAppSelector((state) => state.data.reminderSettings);
+
+  const [amount, setAmount] = useState('1');
+  const [unit, setUnit] = useState<number>(OFFSET_UNITS[2]);
+  const offset = Number.parseInt(amount, 10) * unit;
+
+  return (
+    <>
+      <span className={styles.ignore_setting_title}>
+        <Trans>截止提醒</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          在作业截止前的指定时间显示系统通知，已提交、已忽略或所在课程被隐藏的作业不会提醒。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enabled}
+                onChange={(e) => dispatch(toggleReminderEnabled(e.target.checked))}
+              />
+            }
+            label={<Trans>启用截止提醒</Trans>}
+          />
+          <FormControlLabel
+            disabled={!settings.enabled}
+            control={
+              <Switch
+                checked={settings.lateSubmission}
+                onChange={(e) => dispatch(toggleLateSubmissionReminder(e.target.checked))}
+              />
+            }
+            label={<Trans>补交截止前也提醒</Trans>}
+          />
+        </div>
+        <div className={styles.notify_setting_offsets}>
+          {settings.offsets.map((o) => (
+            <Chip
+              key={o}
+              label={t`提前 ${formatOffset(o)}`}
+              disabled={!settings.enabled}
+              onDelete={() => dispatch(removeReminderOffset(o))}
+            />
+          ))}
+        </div>
+        <div className={styles.notify_setting_switches}>
+          <TextField
+            type="number"
+            size="small"
+            disabled={!settings.enabled}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            slotProps={{ htmlInput: { min: 1 } }}
+          />
+          <Select
+            size="small"
+            disabled={!settings.enabled}
+            value={unit}
+            onChange={(e) => setUnit(Number(e.target.value))}
+          >
+            <MenuItem value={OFFSET_UNITS[0]}>
+              <Trans>分钟</Trans>
+            </MenuItem>
+            <MenuItem value={OFFSET_UNITS[1]}>
+              <Trans>小时</Trans>
+            </MenuItem>
+            <MenuItem value={OFFSET_UNITS[2]}>
+              <Trans>天</Trans>
+            </MenuItem>
+          </Select>
+          <Button
+            variant="outlined"
+            disabled={!settings.enabled || !(offset > 0)}
+            onClick={() => dispatch(addReminderOffset(offset))}
+          >
+            <Trans>添加提醒</Trans>
+          </Button>
+        </div>
+      </section>
+    </>
+  );
+};
+
+const NotifySetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const courses = useAppSelector(selectCourseList);
+  const settings = useAppSelector((state) => state.data.notifySettings);
+
+  return (
+    <section className={styles.notify_setting}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>通知设置</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          刷新时发现新公告、新文件、新作业或作业被批阅时，将显示系统通知，点击通知可查看详情。
+          <br />
+          即使没有打开 Learn Helper，启用自动登录后也会在后台定期刷新。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enabled}
+                onChange={(e) => dispatch(toggleNotifyEnabled(e.target.checked))}
+              />
+            }
+            label={<Trans>启用系统通知</Trans>}
+          />
+          <FormControlLabel
+            disabled={!settings.enabled}
+            control={
+              <Switch
+                checked={settings.grouped}
+                onChange={(e) => dispatch(toggleNotifyGrouped(e.target.checked))}
+              />
+            }
+            label={<Trans>按课程合并通知</Trans>}
+          />
+        </div>
+        <Paper>
+          <Table>
+            <TableHead>
+              <TableRow>
+                {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                  <TableCell key={func.type} align="center">
+                    {_(func.name)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              <TableRow>
+                {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                  <TableCell align="center" key={func.type}>
+                    <Switch
+                      disabled={!settings.enabled}
+                      checked={settings.types[func.type]}
+                      onChange={() => {
+                        dispatch(
+                          toggleNotifyType({
+                            type: func.type,
+                            state: !settings.types[func.type],
+                          }),
+                        );
+                      }}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </Paper>
+        <Paper className={styles.notify_setting_courses}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  <Trans>课程名称</Trans>
+                </TableCell>
+                <TableCell align="center">
+                  <Trans>接收通知</Trans>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {courses.map((c) => (
+                <TableRow key={c.id}>
+                  <TableCell component="th" scope="row">
+                    {_({ id: `course-${c.id}` })}
+                  </TableCell>
+                  <TableCell align="center">
+                    <Switch
+                      disabled={!settings.enabled}
+                      checked={settings.courses[c.id] !== false}
+                      onChange={() => {
+                        dispatch(
+                          toggleNotifyCourse({
+                            id: c.id,
+                            state: settings.courses[c.id] === false,
+                          }),
+                        );
+                      }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      </section>
+      <ReminderSetting />
+    </section>
+  );
+};
+
+export default NotifySetting;
@@ -0,0 +1,122 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from '@mui/material';
+
+import IconCheck from '~icons/fa6-solid/check';
+import IconXmark from '~icons/fa6-solid/xmark';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import { retryFailedSync } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import type { SyncRecord } from '../redux/reducers/data';
+import { countFailures } from '../utils/fetcher';
+import { formatDateTime, formatFailReason } from '../utils/format';
+
+const formatDuration = (ms: number) => t`${(ms / 1000).toFixed(1)} 秒`;
+
+const RecordCell = ({ record }: { record?: SyncRecord }) => {
+  if (!record) return <TableCell align="center">-</TableCell>;
+  const attempts = record.attempts > 1 ? t`（尝试 ${record.attempts} 次）` : '';
+  return (
+    <TableCell align="center">
+      <Tooltip title={formatDuration(record.duration) + attempts}>
+        {record.success ? (
+          <span className={styles.sync_report_success}>
+            <IconCheck />
+          </span>
+        ) : (
+          <span className={styles.sync_report_failure}>
+            <IconXmark /> {formatFailReason(record.reason ?? 'UNKNOWN')}
+          </span>
+        )}
+      </Tooltip>
+    </TableCell>
+  );
+};
+
+const SyncReportView = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const report = useAppSelector((state) => state.data.syncReport);
+  const courses = useAppSelector((state) => state.data.courseMap);
+  const loading = useAppSelector((state) => state.ui.loadingProgress !== undefined);
+
+  const failures = report ? countFailures(report) : 0;
+
+  return (
+    <section className={styles.sync_report}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>同步报告</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        {report ? (
+          <Trans>
+            上次同步开始于 {formatDateTime(new Date(report.startedAt))}，耗时{' '}
+            {formatDuration(report.finishedAt - report.startedAt)}，共 {failures} 项失败。
+            <br />
+            失败的请求已自动重试，鼠标悬停可查看耗时与尝试次数。
+          </Trans>
+        ) : (
+          <Trans>尚无同步记录，请先刷新。</Trans>
+        )}
+      </header>
+      {report && (
+        <section className={styles.ignore_setting_container}>
+          <Paper>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>
+                    <Trans>课程名称</Trans>
+                  </TableCell>
+                  {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                    <TableCell key={func.type} align="center">
+                      {_(func.name)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {Object.keys(courses).map((cid) => (
+                  <TableRow key={cid}>
+                    <TableCell component="th" scope="row">
+                      {_({ id: `course-${cid}` })}
+                    </TableCell>
+                    {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                      <RecordCell key={func.type} record={report.records[func.type][cid]} />
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Paper>
+          <div className={styles.ignore_setting_reset_button}>
+            <Button
+              color="primary"
+              variant="contained"
+              disabled={failures === 0 || loading}
+              onClick={() => {
+                dispatch(retryFailedSync());
+              }}
+            >
+              <Trans>重试失败项</Trans>
+            </Button>
+          </div>
+        </section>
+      )}
+    </section>
+  );
+};
+
+export default SyncReportView;
@@ -0,0 +1,402 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Autocomplete,
+  Button,
+  Checkbox,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { useMemo, useState } from 'react';
+import { useLocation } from 'wouter';
+
+import IconPen from '~icons/fa6-solid/pen';
+import IconTrash from '~icons/fa6-solid/trash';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import { clearRuleLog, removeRule, saveRule, toggleRuleEnabled } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectCourseList, selectDataLists, selectTagCounts } from '../redux/selectors';
+import type { FetchedContentInfo, SupportedContentType } from '../types/data';
+import { formatDateTime } from '../utils/format';
+import { contentPath } from '../utils/notify';
+import {
+  checkPattern,
+  hasActions,
+  matchRule,
+  parseExtensions,
+  type Rule,
+  type RuleActions,
+} from '../utils/rule';
+import { normalizeTags } from '../utils/tag';
+
+// matched contents listed in the preview, the rest are only counted
+const PREVIEW_LIMIT = 20;
+
+const ALL = 'all';
+
+const emptyRule = (): Rule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  types: [],
+  courseIds: [],
+  extensions: [],
+  actions: { star: false, ignore: false, markRead: false, tags: [] },
+});
+
+const ACTION_NAMES = {
+  star: () => t`加星标`,
+  ignore: () => t`忽略`,
+  markRead: () => t`标记已读`,
+} as const;
+
+const RuleSetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const [_location, navigate] = useLocation();
+  const courses = useAppSelector(selectCourseList);
+  const tagCounts = useAppSelector(selectTagCounts);
+  const dataLists = useAppSelector(selectDataLists);
+  const rules = useAppSelector((state) => state.data.rules);
+  const ruleLog = useAppSelector((state) => state.data.ruleLog);
+
+  const [editing, setEditing] = useState<Rule>(emptyRule);
+  // extensions as typed, parsed on saving
+  const [extensions, setExtensions] = useState('');
+  const [logRule, setLogRule] = useState<string>(ALL);
+  const isNew = !rules.some((r) => r.id === editing.id);
+
+  const update = (patch: Partial<Rule>) => setEditing({ ...editing, ...patch });
+  const updateActions = (patch: Partial<RuleActions>) =>
+    update({ actions: { ...editing.actions, ...patch } });
+
+  const edit = (rule: Rule) => {
+    setEditing(rule);
+    setExtensions(rule.extensions.join(', '));
+  };
+  const reset = () => edit(emptyRule());
+
+  const titleError = editing.title ? checkPattern(editing.title) : undefined;
+  const publisherError = editing.publisher ? checkPattern(editing.publisher) : undefined;
+  const parsed: Rule = {
+    ...editing,
+    name: editing.name.trim(),
+    extensions: parseExtensions(extensions),
+  };
+  const valid = parsed.name !== '' && !titleError && !publisherError && hasActions(parsed.actions);
+
+  // dry run against the current data
+  const fetched = useMemo(
+    () =>
+      ([] as FetchedContentInfo[]).concat(
+        dataLists.notificationList,
+        dataLists.fileList,
+        dataLists.homeworkList,
+        dataLists.discussionList,
+        dataLists.questionList,
+      ),
+    [dataLists],
+  );
+  const preview = titleError || publisherError ? [] : fetched.filter((c) => matchRule(parsed, c));
+
+  const ruleNames = Object.fromEntries(rules.map((r) => [r.id, r.name]));
+  const matchCounts = new Map<string, number>();
+  for (const e of ruleLog) matchCounts.set(e.ruleId, (matchCounts.get(e.ruleId) ?? 0) + 1);
+  const entries = ruleLog.filter((e) => logRule === ALL || e.ruleId === logRule);
+
+  return (
+    <section className={styles.rule_setting}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>自动规则</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          刷新时对新获取的内容逐条检查规则，符合全部条件的内容将被自动加星标、忽略、标记已读或添加标签，例如自动忽略某位助教发布的“课件更新”。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        {rules.length !== 0 && (
+          <Paper className={styles.custom_view_list}>
+            <List disablePadding>
+              {rules.map((r) => (
+                <ListItem
+                  key={r.id}
+                  secondaryAction={
+                    <>
+                      <Tooltip title={t`编辑`}>
+                        <IconButton size="small" onClick={() => edit(r)}>
+                          <IconPen />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={t`删除`}>
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            dispatch(removeRule(r.id));
+                            if (editing.id === r.id) reset();
+                            if (logRule === r.id) setLogRule(ALL);
+                          }}
+                        >
+                          <IconTrash />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  }
+                >
+                  <ListItemIcon>
+                    <Switch
+                      size="small"
+                      checked={r.enabled}
+                      onChange={(e) =>
+                        dispatch(toggleRuleEnabled({ id: r.id, state: e.target.checked }))
+                      }
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={r.name}
+                    secondary={t`已匹配 ${matchCounts.get(r.id) ?? 0} 项`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        )}
+        <div className={styles.rule_form}>
+          <TextField
+            size="small"
+            label={t`名称`}
+            value={editing.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>内容类型</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`内容类型`}
+              value={editing.types}
+              onChange={(e) => update({ types: e.target.value as SupportedContentType[] })}
+              renderValue={(types) =>
+                types.map((type) => _(COURSE_MAIN_FUNC[type].name)).join(t`、`)
+              }
+            >
+              {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                <MenuItem key={func.type} value={func.type}>
+                  {_(func.name)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>课程</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`课程`}
+              value={editing.courseIds}
+              onChange={(e) => update({ courseIds: e.target.value as string[] })}
+              renderValue={(ids) => ids.map((id) => _({ id: `course-${id}` })).join(t`、`)}
+            >
+              {courses.map((c) => (
+                <MenuItem key={c.id} value={c.id}>
+                  {_({ id: `course-${c.id}` })}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label={t`标题（正则表达式）`}
+            value={editing.title ?? ''}
+            error={!!titleError}
+            helperText={titleError}
+            onChange={(e) => update({ title: e.target.value || undefined })}
+          />
+          <TextField
+            size="small"
+            label={t`发布者（正则表达式）`}
+            value={editing.publisher ?? ''}
+            error={!!publisherError}
+            helperText={publisherError}
+            onChange={(e) => update({ publisher: e.target.value || undefined })}
+          />
+          <TextField
+            size="small"
+            label={t`文件扩展名`}
+            placeholder="pdf, pptx"
+            value={extensions}
+            onChange={(e) => setExtensions(e.target.value)}
+          />
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>标记重要</Trans>
+            </InputLabel>
+            <Select
+              label={t`标记重要`}
+              value={
+                editing.markedImportant === undefined
+                  ? 'any'
+                  : editing.markedImportant
+                    ? 'yes'
+                    : 'no'
+              }
+              onChange={(e) =>
+                update({
+                  markedImportant: e.target.value === 'any' ? undefined : e.target.value === 'yes',
+                })
+              }
+            >
+              <MenuItem value="any">
+                <Trans>不限</Trans>
+              </MenuItem>
+              <MenuItem value="yes">
+                <Trans>是</Trans>
+              </MenuItem>
+              <MenuItem value="no">
+                <Trans>否</Trans>
+              </MenuItem>
+            </Select>
+          </FormControl>
+        </div>
+        <div className={styles.rule_form}>
+          {(Object.keys(ACTION_NAMES) as (keyof typeof ACTION_NAMES)[]).map((action) => (
+            <FormControlLabel
+              key={action}
+              label={ACTION_NAMES[action]()}
+              control={
+                <Checkbox
+                  checked={editing.actions[action]}
+                  onChange={(e) => updateActions({ [action]: e.target.checked })}
+                />
+              }
+            />
+          ))}
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={tagCounts.map((tag) => tag.name)}
+            value={editing.actions.tags}
+            onChange={(_e, tags) => updateActions({ tags: normalizeTags(tags) })}
+            renderValue={(tags, getItemProps) =>
+              tags.map((tag, index) => {
+                const { key: _key, ...props } = getItemProps({ index });
+                return <Chip {...props} key={tag} size="small" label={tag} />;
+              })
+            }
+            renderInput={(params) => <TextField {...params} label={t`添加标签`} />}
+          />
+        </div>
+        <div className={styles.notify_setting_switches}>
+          <Button
+            color="primary"
+            variant="contained"
+            disabled={!valid}
+            onClick={() => {
+              dispatch(saveRule(parsed));
+              reset();
+            }}
+          >
+            {isNew ? <Trans>添加规则</Trans> : <Trans>保存规则</Trans>}
+          </Button>
+          {!isNew && (
+            <Button color="primary" onClick={reset}>
+              <Trans>取消</Trans>
+            </Button>
+          )}
+        </div>
+        <header className={styles.ignore_setting_description}>
+          <Trans>预览：当前数据中有 {preview.length} 项符合以上条件</Trans>
+        </header>
+        {preview.length !== 0 && (
+          <Paper className={styles.custom_view_list}>
+            <List disablePadding dense>
+              {preview.slice(0, PREVIEW_LIMIT).map((c) => (
+                <ListItemButton
+                  key={`${c.type}-${c.id}`}
+                  onClick={() => navigate(contentPath(c.type, c.id))}
+                >
+                  <ListItemIcon className={styles.activity_icon}>
+                    {COURSE_MAIN_FUNC[c.type].icon}
+                  </ListItemIcon>
+                  <ListItemText primary={c.title} secondary={_({ id: `course-${c.courseId}` })} />
+                </ListItemButton>
+              ))}
+            </List>
+          </Paper>
+        )}
+      </section>
+      <span className={styles.ignore_setting_title}>
+        <Trans>匹配记录</Trans>
+      </span>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <Select size="small" value={logRule} onChange={(e) => setLogRule(e.target.value)}>
+            <MenuItem value={ALL}>
+              <Trans>所有规则</Trans>
+            </MenuItem>
+            {rules.map((r) => (
+              <MenuItem key={r.id} value={r.id}>
+                {r.name}
+              </MenuItem>
+            ))}
+          </Select>
+          <Button
+            color="primary"
+            disabled={ruleLog.length === 0}
+            onClick={() => dispatch(clearRuleLog())}
+          >
+            <Trans>清空记录</Trans>
+          </Button>
+        </div>
+        <Paper>
+          {entries.length === 0 ? (
+            <div className={styles.activity_empty}>
+              <Trans>暂无匹配记录</Trans>
+            </div>
+          ) : (
+            <List disablePadding>
+              {entries.map((e) => (
+                <ListItemButton
+                  key={e.id}
+                  onClick={() => navigate(contentPath(e.type, e.contentId))}
+                >
+                  <ListItemIcon className={styles.activity_icon}>
+                    {COURSE_MAIN_FUNC[e.type].icon}
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${e.title} · ${ruleNames[e.ruleId] ?? ''}`}
+                    secondary={`${formatDateTime(new Date(e.matchedAt))} · ${_({
+                      id: `course-${e.courseId}`,
+                    })}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </section>
+    </section>
+  );
+};
+
+export default RuleSetting;
@@ -0,0 +1,101 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import { List, ListItemButton, ListItemIcon, ListItemText, Paper, TextField } from '@mui/material';
+import { useMemo, useState } from 'react';
+import { useLocation } from 'wouter';
+
+import { CARD_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import { useAppSelector } from '../redux/hooks';
+import { selectDataLists } from '../redux/selectors';
+import { contentPath } from '../utils/notify';
+import { type SnippetPart, searchContents } from '../utils/search';
+
+const Highlighted = ({ parts }: { parts: SnippetPart[] }) => (
+  <>
+    {parts.map((p, i) =>
+      p.highlighted ? (
+        // biome-ignore lint/suspicious/noArrayIndexKey: parts are never reordered
+        <mark key={i} className={styles.search_highlight}>
+          {p.text}
+        </mark>
+      ) : (
+        p.text
+      ),
+    )}
+  </>
+);
+
+const ContentSearch = () => {
+  const { _ } = useLingui();
+  const [_location, navigate] = useLocation();
+  // the index is updated along with contents, recompute results when they change
+  const dataLists = useAppSelector(selectDataLists);
+
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => {
+    void dataLists;
+    return searchContents(query);
+  }, [query, dataLists]);
+
+  return (
+    <section className={styles.search}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>全文搜索</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>搜索所有内容与待办的标题和笔记，以及公告正文、作业说明与评语、文件描述。</Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <div className={styles.notify_setting_switches}>
+          <TextField
+            size="small"
+            fullWidth
+            autoFocus
+            placeholder={t`输入关键词`}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        {query.trim() !== '' && (
+          <Paper>
+            {results.length === 0 ? (
+              <div className={styles.activity_empty}>
+                <Trans>没有找到相关内容</Trans>
+              </div>
+            ) : (
+              <List disablePadding>
+                {results.map(({ content: c, title, snippet }) => (
+                  <ListItemButton
+                    key={`${c.type}-${c.id}`}
+                    onClick={() => navigate(contentPath(c.type, c.id))}
+                  >
+                    <ListItemIcon className={styles.activity_icon}>
+                      {CARD_MAIN_FUNC[c.type].icon}
+                    </ListItemIcon>
+                    <ListItemText
+                      className={styles.search_result}
+                      primary={<Highlighted parts={title} />}
+                      secondary={
+                        <>
+                          {c.courseId
+                            ? _({ id: `course-${c.courseId}` })
+                            : _(CARD_MAIN_FUNC.todo.name)}
+                          {snippet.length !== 0 && ' · '}
+                          <Highlighted parts={snippet} />
+                        </>
+                      }
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        )}
+      </section>
+    </section>
+  );
+};
+
+export default ContentSearch;
@@ -1,21 +1,230 @@
+import { t } from '@lingui/core/macro';
 import { useLingui } from '@lingui/react';
 import { Trans } from '@lingui/react/macro';
 
 import {
+  Autocomplete,
   Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
   Paper,
+  Select,
   Switch,
   Table,
   TableBody,
   TableCell,
   TableHead,
   TableRow,
+  TextField,
+  Tooltip,
 } from '@mui/material';
+import { useState } from 'react';
+
+import IconTrash from '~icons/fa6-solid/trash';
 
 import { COURSE_MAIN_FUNC } from '../constants/ui';
 import styles from '../css/page.module.css';
-import { resetContentIgnore, toggleContentIgnore } from '../redux/actions';
+import {
+  refreshCardList,
+  removeMuteRule,
+  resetContentIgnore,
+  saveMuteRule,
+  toggleContentIgnore,
+} from '../redux/actions';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectCourseList, selectDataLists } from '../redux/selectors';
+import type { SupportedContentType } from '../types/data';
+import { formatDateTime, toDateTimeInputValue } from '../utils/format';
+import { hasConditions, isMuteActive, type MuteRule } from '../utils/mute';
+
+const emptyMuteRule = (): MuteRule => ({
+  id: crypto.randomUUID(),
+  courseIds: [],
+  types: [],
+});
+
+const MuteRuleSetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const courses = useAppSelector(selectCourseList);
+  const { fileList } = useAppSelector(selectDataLists);
+  const muteRules = useAppSelector((state) => state.data.muteRules);
+
+  const [editing, setEditing] = useState<MuteRule>(emptyMuteRule);
+  // the end time as typed, muted forever if empty
+  const [until, setUntil] = useState('');
+  const untilTime = until ? new Date(until).getTime() : undefined;
+
+  const categories = Array.from(
+    new Set(fileList.flatMap((f) => (f.category ? [f.category.title] : []))),
+  ).sort();
+
+  const update = (patch: Partial<MuteRule>) => setEditing({ ...editing, ...patch });
+  const courseName = (id: string) => _({ id: `course-${id}` });
+
+  const describe = (rule: MuteRule) =>
+    [
+      rule.courseIds.length !== 0 && rule.courseIds.map(courseName).join(t`、`),
+      rule.types.length !== 0 &&
+        rule.types.map((type) => _(COURSE_MAIN_FUNC[type].name)).join(t`、`),
+      rule.publisher && t`发布者包含“${rule.publisher}”`,
+      rule.keyword && t`标题包含“${rule.keyword}”`,
+      rule.fileCategory && t`文件分类包含“${rule.fileCategory}”`,
+    ]
+      .filter((part) => part)
+      .join(' · ');
+
+  const parsed: MuteRule = {
+    ...editing,
+    publisher: editing.publisher?.trim() || undefined,
+    keyword: editing.keyword?.trim() || undefined,
+    fileCategory: editing.fileCategory?.trim() || undefined,
+    until: untilTime,
+  };
+  const valid =
+    hasConditions(parsed) &&
+    (untilTime === undefined || (!Number.isNaN(untilTime) && untilTime > Date.now()));
+
+  return (
+    <>
+      <span className={styles.ignore_setting_title}>
+        <Trans>屏蔽规则</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          按课程、内容类型、发布者、标题关键词或文件分类屏蔽内容，被屏蔽的内容不会出现在汇总中、计入未读数或发送通知。设置了截止时间的规则到期后自动删除。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        {muteRules.length !== 0 && (
+          <Paper className={styles.custom_view_list}>
+            <List disablePadding>
+              {muteRules.map((rule) => (
+                <ListItem
+                  key={rule.id}
+                  secondaryAction={
+                    <Tooltip title={t`删除`}>
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          dispatch(removeMuteRule(rule.id));
+                          dispatch(refreshCardList());
+                        }}
+                      >
+                        <IconTrash />
+                      </IconButton>
+                    </Tooltip>
+                  }
+                >
+                  <ListItemText
+                    primary={describe(rule)}
+                    secondary={
+                      rule.until === undefined
+                        ? t`永久屏蔽`
+                        : isMuteActive(rule)
+                          ? t`屏蔽至 ${formatDateTime(new Date(rule.until))}`
+                          : t`已到期`
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        )}
+        <div className={styles.rule_form}>
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>课程</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`课程`}
+              value={editing.courseIds}
+              onChange={(e) => update({ courseIds: e.target.value as string[] })}
+              renderValue={(ids) => ids.map(courseName).join(t`、`)}
+            >
+              {courses.map((c) => (
+                <MenuItem key={c.id} value={c.id}>
+                  {courseName(c.id)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>内容类型</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`内容类型`}
+              value={editing.types}
+              onChange={(e) => update({ types: e.target.value as SupportedContentType[] })}
+              renderValue={(types) =>
+                types.map((type) => _(COURSE_MAIN_FUNC[type].name)).join(t`、`)
+              }
+            >
+              {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                <MenuItem key={func.type} value={func.type}>
+                  {_(func.name)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label={t`发布者`}
+            value={editing.publisher ?? ''}
+            onChange={(e) => update({ publisher: e.target.value || undefined })}
+          />
+          <TextField
+            size="small"
+            label={t`标题关键词`}
+            value={editing.keyword ?? ''}
+            onChange={(e) => update({ keyword: e.target.value || undefined })}
+          />
+          <Autocomplete
+            freeSolo
+            size="small"
+            options={categories}
+            inputValue={editing.fileCategory ?? ''}
+            onInputChange={(_e, value) => update({ fileCategory: value || undefined })}
+            renderInput={(params) => <TextField {...params} label={t`文件分类`} />}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label={t`屏蔽至`}
+            helperText={t`留空则永久屏蔽`}
+            slotProps={{
+              inputLabel: { shrink: true },
+              htmlInput: { min: toDateTimeInputValue(Date.now()) },
+            }}
+            value={until}
+            onChange={(e) => setUntil(e.target.value)}
+          />
+        </div>
+        <Button
+          color="primary"
+          variant="contained"
+          disabled={!valid}
+          onClick={() => {
+            dispatch(saveMuteRule(parsed));
+            dispatch(refreshCardList());
+            setEditing(emptyMuteRule());
+            setUntil('');
+          }}
+        >
+          <Trans>添加屏蔽规则</Trans>
+        </Button>
+      </section>
+    </>
+  );
+};
 
 const ContentIgnoreSetting = () => {
   const { _ } = useLingui();
@@ -30,7 +239,7 @@ const ContentIgnoreSetting = () => {
       </span>
       <header className={styles.ignore_setting_description}>
         <Trans>
-          此处的更改在下一次刷新时生效，并且只在汇总功能中起作用。
+          此处的更改立即生效，并且只在汇总功能中起作用。
           <br />
           如果您重新启用一个隐藏的项目，原本的项目属性（是否已读、加星标）不会发生变化。
         </Trans>
@@ -68,6 +277,7 @@ const ContentIgnoreSetting = () => {
                               state: !ignore[func.type],
                             }),
                           );
+                          dispatch(refreshCardList());
                         }}
                       />
                     </TableCell>
@@ -83,12 +293,14 @@ const ContentIgnoreSetting = () => {
             variant="contained"
             onClick={() => {
               dispatch(resetContentIgnore());
+              dispatch(refreshCardList());
             }}
           >
             <Trans>重置</Trans>
           </Button>
         </div>
       </section>
+      <MuteRuleSetting />
     </section>
   );
 };
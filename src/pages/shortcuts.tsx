@@ -0,0 +1,120 @@
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { useState } from 'react';
+
+import IconRotateLeft from '~icons/fa6-solid/rotate-left';
+
+import styles from '../css/page.module.css';
+import { resetShortcuts, setShortcut } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectShortcuts } from '../redux/selectors';
+import {
+  findConflicts,
+  normalizeKeys,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+} from '../utils/shortcut';
+
+const ShortcutSetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const shortcuts = useAppSelector(selectShortcuts);
+  const custom = useAppSelector((state) => state.data.shortcuts);
+  const conflicts = findConflicts(shortcuts);
+
+  // text being edited, committed on blur
+  const [drafts, setDrafts] = useState<Partial<Record<ShortcutAction, string>>>({});
+
+  const commit = (action: ShortcutAction) => {
+    const draft = drafts[action];
+    if (draft === undefined) return;
+    const keys = normalizeKeys(draft);
+    // an empty input restores the default
+    dispatch(
+      setShortcut({
+        action,
+        keys: keys === SHORTCUT_ACTIONS[action].keys ? undefined : keys,
+      }),
+    );
+    setDrafts({ ...drafts, [action]: undefined });
+  };
+
+  return (
+    <section className={styles.shortcut}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>键盘快捷键</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          按键名称与 KeyboardEvent.key 相同，以空格分隔表示依次按下，例如“g
+          h”。在输入框中或焦点位于网页内容中时，快捷键不会生效。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <Paper>
+          <Table size="small">
+            <TableBody>
+              {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map((action) => (
+                <TableRow key={action}>
+                  <TableCell>{_(SHORTCUT_ACTIONS[action].name)}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      variant="standard"
+                      value={drafts[action] ?? shortcuts[action]}
+                      error={conflicts.has(action)}
+                      helperText={conflicts.has(action) ? t`与其他快捷键冲突` : undefined}
+                      onChange={(e) => setDrafts({ ...drafts, [action]: e.target.value })}
+                      onBlur={() => commit(action)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commit(action);
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={t`恢复默认`}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={custom[action] === undefined}
+                          onClick={() => dispatch(setShortcut({ action }))}
+                        >
+                          <IconRotateLeft />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+        <Button
+          className={styles.ignore_setting_reset_button}
+          color="primary"
+          variant="contained"
+          onClick={() => {
+            dispatch(resetShortcuts());
+            setDrafts({});
+          }}
+        >
+          <Trans>全部恢复默认</Trans>
+        </Button>
+      </section>
+    </section>
+  );
+};
+
+export default ShortcutSetting;
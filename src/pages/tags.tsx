@@ -0,0 +1,124 @@
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { IconButton, List, ListItem, ListItemText, Paper, TextField, Tooltip } from '@mui/material';
+import { useState } from 'react';
+
+import IconCheck from '~icons/fa6-solid/check';
+import IconPen from '~icons/fa6-solid/pen';
+import IconTrash from '~icons/fa6-solid/trash';
+import IconXmark from '~icons/fa6-solid/xmark';
+
+import styles from '../css/page.module.css';
+import { refreshCardList, removeTag, renameTag, setCardFilter } from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectTagCounts } from '../redux/selectors';
+import { normalizeTags } from '../utils/tag';
+
+const TagSetting = () => {
+  const dispatch = useAppDispatch();
+  const tagCounts = useAppSelector(selectTagCounts);
+  const filteringTag = useAppSelector((state) => state.ui.cardFilter.tag);
+
+  // the tag being renamed and its new name
+  const [editing, setEditing] = useState<{ from: string; to: string } | undefined>();
+
+  const rename = () => {
+    if (!editing) return;
+    const [to] = normalizeTags([editing.to]);
+    if (to && to !== editing.from) {
+      dispatch(renameTag({ from: editing.from, to }));
+      if (filteringTag === editing.from) dispatch(setCardFilter({ tag: to }));
+      dispatch(refreshCardList());
+    }
+    setEditing(undefined);
+  };
+
+  return (
+    <section className={styles.tag_setting}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>管理标签</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          在内容详情中为项目添加标签。重命名为已有的标签会将两者合并，删除标签不会删除项目本身。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        <Paper>
+          {tagCounts.length === 0 ? (
+            <div className={styles.activity_empty}>
+              <Trans>还没有标签</Trans>
+            </div>
+          ) : (
+            <List disablePadding>
+              {tagCounts.map(({ name, count }) =>
+                editing?.from === name ? (
+                  <ListItem
+                    key={name}
+                    secondaryAction={
+                      <>
+                        <Tooltip title={t`保存`}>
+                          <IconButton size="small" onClick={rename}>
+                            <IconCheck />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t`取消`}>
+                          <IconButton size="small" onClick={() => setEditing(undefined)}>
+                            <IconXmark />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  >
+                    <TextField
+                      size="small"
+                      variant="standard"
+                      autoFocus
+                      value={editing.to}
+                      onChange={(e) => setEditing({ from: name, to: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') rename();
+                      }}
+                    />
+                  </ListItem>
+                ) : (
+                  <ListItem
+                    key={name}
+                    secondaryAction={
+                      <>
+                        <Tooltip title={t`重命名`}>
+                          <IconButton
+                            size="small"
+                            onClick={() => setEditing({ from: name, to: name })}
+                          >
+                            <IconPen />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t`删除`}>
+                          <IconButton
+                            size="small"
+                            onClick={() => {
+                              dispatch(removeTag(name));
+                              if (filteringTag === name) dispatch(setCardFilter({}));
+                              dispatch(refreshCardList());
+                            }}
+                          >
+                            <IconTrash />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  >
+                    <ListItemText primary={name} secondary={t`${count} 个项目`} />
+                  </ListItem>
+                ),
+              )}
+            </List>
+          )}
+        </Paper>
+      </section>
+    </section>
+  );
+};
+
+export default TagSetting;
@@ -0,0 +1,278 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg, t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { Trans } from '@lingui/react/macro';
+import {
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { useState } from 'react';
+
+import IconArrowDown from '~icons/fa6-solid/arrow-down';
+import IconArrowUp from '~icons/fa6-solid/arrow-up';
+import IconPen from '~icons/fa6-solid/pen';
+import IconTrash from '~icons/fa6-solid/trash';
+
+import { COURSE_MAIN_FUNC } from '../constants/ui';
+import styles from '../css/page.module.css';
+import {
+  moveCustomView,
+  refreshCardList,
+  removeCustomView,
+  saveCustomView,
+} from '../redux/actions';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { selectCourseList } from '../redux/selectors';
+import type { SupportedContentType } from '../types/data';
+import type { CustomView } from '../utils/view';
+
+type StateFilter = 'any' | 'yes' | 'no';
+
+const toStateFilter = (value?: boolean): StateFilter =>
+  value === undefined ? 'any' : value ? 'yes' : 'no';
+const fromStateFilter = (value: StateFilter) => (value === 'any' ? undefined : value === 'yes');
+
+const DATE_WINDOWS: Record<string, { name: MessageDescriptor; window?: CustomView['dateWindow'] }> =
+  {
+    any: { name: msg`不限` },
+    past30: { name: msg`过去 30 天`, window: { start: -30, end: 1 } },
+    past7: { name: msg`过去 7 天`, window: { start: -7, end: 1 } },
+    today: { name: msg`今天`, window: { start: 0, end: 1 } },
+    next7: { name: msg`今后 7 天`, window: { start: 0, end: 7 } },
+    next30: { name: msg`今后 30 天`, window: { start: 0, end: 30 } },
+  };
+
+const windowKey = (window?: CustomView['dateWindow']) =>
+  Object.keys(DATE_WINDOWS).find(
+    (key) =>
+      DATE_WINDOWS[key].window?.start === window?.start &&
+      DATE_WINDOWS[key].window?.end === window?.end,
+  ) ?? 'any';
+
+const emptyView = (): CustomView => ({
+  id: crypto.randomUUID(),
+  name: '',
+  types: [],
+  courseIds: [],
+});
+
+const StateSelect = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value?: boolean;
+  onChange: (value?: boolean) => void;
+}) => (
+  <FormControl size="small">
+    <InputLabel>{label}</InputLabel>
+    <Select
+      label={label}
+      value={toStateFilter(value)}
+      onChange={(e) => onChange(fromStateFilter(e.target.value as StateFilter))}
+    >
+      <MenuItem value="any">
+        <Trans>不限</Trans>
+      </MenuItem>
+      <MenuItem value="yes">
+        <Trans>是</Trans>
+      </MenuItem>
+      <MenuItem value="no">
+        <Trans>否</Trans>
+      </MenuItem>
+    </Select>
+  </FormControl>
+);
+
+const CustomViewSetting = () => {
+  const { _ } = useLingui();
+  const dispatch = useAppDispatch();
+  const courses = useAppSelector(selectCourseList);
+  const views = useAppSelector((state) => state.data.customViews);
+
+  const [editing, setEditing] = useState<CustomView>(emptyView);
+  const isNew = !views.some((v) => v.id === editing.id);
+
+  const update = (patch: Partial<CustomView>) => setEditing({ ...editing, ...patch });
+
+  return (
+    <section className={styles.custom_view}>
+      <span className={styles.ignore_setting_title}>
+        <Trans>自定义视图</Trans>
+      </span>
+      <header className={styles.ignore_setting_description}>
+        <Trans>
+          组合内容类型、课程、状态与时间范围，保存为显示在“项目汇总”中的视图，例如“今后 7
+          天截止且未提交的作业”。
+        </Trans>
+      </header>
+      <section className={styles.ignore_setting_container}>
+        {views.length !== 0 && (
+          <Paper className={styles.custom_view_list}>
+            <List disablePadding>
+              {views.map((v, i) => (
+                <ListItem
+                  key={v.id}
+                  secondaryAction={
+                    <>
+                      <Tooltip title={t`上移`}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={i === 0}
+                            onClick={() => dispatch(moveCustomView({ id: v.id, offset: -1 }))}
+                          >
+                            <IconArrowUp />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title={t`下移`}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={i === views.length - 1}
+                            onClick={() => dispatch(moveCustomView({ id: v.id, offset: 1 }))}
+                          >
+                            <IconArrowDown />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title={t`编辑`}>
+                        <IconButton size="small" onClick={() => setEditing(v)}>
+                          <IconPen />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={t`删除`}>
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            dispatch(removeCustomView(v.id));
+                            dispatch(refreshCardList());
+                            if (editing.id === v.id) setEditing(emptyView());
+                          }}
+                        >
+                          <IconTrash />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  }
+                >
+                  <ListItemText primary={v.name} />
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        )}
+        <div className={styles.custom_view_form}>
+          <TextField
+            size="small"
+            label={t`名称`}
+            value={editing.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>内容类型</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`内容类型`}
+              value={editing.types}
+              onChange={(e) => update({ types: e.target.value as SupportedContentType[] })}
+              renderValue={(types) =>
+                types.map((type) => _(COURSE_MAIN_FUNC[type].name)).join(t`、`)
+              }
+            >
+              {Object.values(COURSE_MAIN_FUNC).map((func) => (
+                <MenuItem key={func.type} value={func.type}>
+                  {_(func.name)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>课程</Trans>
+            </InputLabel>
+            <Select
+              multiple
+              label={t`课程`}
+              value={editing.courseIds}
+              onChange={(e) => update({ courseIds: e.target.value as string[] })}
+              renderValue={(ids) => ids.map((id) => _({ id: `course-${id}` })).join(t`、`)}
+            >
+              {courses.map((c) => (
+                <MenuItem key={c.id} value={c.id}>
+                  {_({ id: `course-${c.id}` })}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <StateSelect
+            label={t`已读`}
+            value={editing.hasRead}
+            onChange={(hasRead) => update({ hasRead })}
+          />
+          <StateSelect
+            label={t`星标`}
+            value={editing.starred}
+            onChange={(starred) => update({ starred })}
+          />
+          <StateSelect
+            label={t`已提交`}
+            value={editing.submitted}
+            onChange={(submitted) => update({ submitted })}
+          />
+          <FormControl size="small">
+            <InputLabel>
+              <Trans>时间范围</Trans>
+            </InputLabel>
+            <Select
+              label={t`时间范围`}
+              value={windowKey(editing.dateWindow)}
+              onChange={(e) => update({ dateWindow: DATE_WINDOWS[e.target.value].window })}
+            >
+              {Object.entries(DATE_WINDOWS).map(([key, { name }]) => (
+                <MenuItem key={key} value={key}>
+                  {_(name)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </div>
+        <div className={styles.notify_setting_switches}>
+          <Button
+            color="primary"
+            variant="contained"
+            disabled={editing.name.trim() === ''}
+            onClick={() => {
+              dispatch(saveCustomView({ ...editing, name: editing.name.trim() }));
+              dispatch(refreshCardList());
+              setEditing(emptyView());
+            }}
+          >
+            {isNew ? <Trans>添加视图</Trans> : <Trans>保存视图</Trans>}
+          </Button>
+          {!isNew && (
+            <Button color="primary" onClick={() => setEditing(emptyView())}>
+              <Trans>取消</Trans>
+            </Button>
+          )}
+        </div>
+      </section>
+    </section>
+  );
+};
+
+export default CustomViewSetting;
@@ -2,24 +2,44 @@ import { i18n } from '@lingui/core';
 import { t } from '@lingui/core/macro';
 import { compileMessage } from '@lingui/message-utils/compileMessage';
 import type { Action, ThunkAction } from '@reduxjs/toolkit';
-import { compare as compareVersion } from 'compare-versions';
 import { enqueueSnackbar } from 'notistack';
 import {
   ContentType,
-  CourseType,
   type Language,
   Learn2018Helper,
+  type SemesterInfo,
   SemesterType,
 } from 'thu-learn-lib';
 
 import { version as currentVersion } from '../../package.json';
-import { STORAGE_KEY_REDUX, STORAGE_KEY_REDUX_LEGACY, STORAGE_KEY_VERSION } from '../constants';
+import { STORAGE_KEY_VERSION } from '../constants';
 import type { ContentInfo, FileInfo } from '../types/data';
+import type { ColorMode } from '../types/ui';
 import { getStoredCredential, storeCredential } from '../utils/auth';
+import { type Backup, type BackupPreview, createBackup } from '../utils/backup';
 import { initiateFileDownload } from '../utils/download';
+import { countFailures, mergeReports, syncContents } from '../utils/fetcher';
 import { getFinger } from '../utils/finger';
 import { formatError } from '../utils/format';
-import { dataSlice } from './reducers/data';
+import {
+  loadVersionedData,
+  migrateData,
+  removeLegacyData,
+  type VersionedData,
+} from '../utils/migration';
+import { isMuteActive, isMuted } from '../utils/mute';
+import {
+  isFullRefresh,
+  planRefresh,
+  planRetry,
+  type RefreshScope,
+  type RefreshTask,
+} from '../utils/planner';
+import { isSnoozed, isSnoozeExpired } from '../utils/snooze';
+import { cardFilterKey, sortContents } from '../utils/sort';
+import { clearStoredData, replaceStoredData, suspendStoring } from '../utils/storage';
+import { matchView } from '../utils/view';
+import { dataSlice, type SyncReport, updateContent } from './reducers/data';
 import { helperSlice } from './reducers/helper';
 import { uiSlice } from './reducers/ui';
 import { selectContentIgnore, selectDataLists } from './selectors';
@@ -38,11 +58,47 @@ export const {
   updateDiscussion,
   updateQuestion,
   updateFinished,
+  updateSyncReport,
   toggleReadState,
   toggleStarState,
   toggleIgnoreState,
+  toggleReadStates,
+  toggleStarStates,
+  toggleIgnoreStates,
+  snoozeContent,
+  setContentTags,
+  setContentNote,
+  setHomeworkProgress,
+  saveTodo,
+  removeTodo,
+  saveRule,
+  removeRule,
+  toggleRuleEnabled,
+  clearRuleLog,
+  renameTag,
+  removeTag,
+  wakeSnoozedContents,
+  importBackup,
   toggleContentIgnore,
   resetContentIgnore,
+  saveMuteRule,
+  removeMuteRule,
+  removeExpiredMuteRules,
+  toggleNotifyEnabled,
+  toggleNotifyGrouped,
+  toggleNotifyType,
+  toggleNotifyCourse,
+  toggleReminderEnabled,
+  toggleLateSubmissionReminder,
+  addReminderOffset,
+  removeReminderOffset,
+  setSortStrategy,
+  setCardGrouping,
+  setShortcut,
+  resetShortcuts,
+  saveCustomView,
+  removeCustomView,
+  moveCustomView,
   markAllRead,
   clearAllData,
   clearFetchedData,
@@ -60,11 +116,12 @@ export const {
   toggleLogoutDialog,
   toggleClearDataDialog,
   toggleChangeSemesterDialog,
-  resetCardVisibilityThreshold,
-  loadMoreCard,
   setCardList,
   setCardFilter,
-  setTitleFilter,
+  setSearchQuery,
+  toggleSelectionMode,
+  toggleShortcutDialog,
+  toggleTodoDialog,
 } = uiSlice.actions;
 
 export type AppThunk<ReturnType = void> = ThunkAction<ReturnType, RootState, unknown, Action>;
@@ -117,68 +174,79 @@ export const refreshIfNeeded = (): AppThunk<Promise<void>> => async (dispatch, g
   if (data.updateFinished && justUpdated) {
     enqueueSnackbar(t`离上次成功刷新不足15分钟，若需要可手动刷新`, { variant: 'info' });
   } else {
-    await dispatch(refresh());
+    await dispatch(refresh({ onlyStale: true }));
   }
 };
 
-export const refresh = (): AppThunk<Promise<void>> => async (dispatch, getState) => {
-  dispatch(setLoadingProgress(0));
-  const helperState = getState().helper;
-  const helper = helperState.helper;
-
-  let allCourseIds: string[] = [];
-
-  const progresses = [0, 10, 20, 38, 52, 68, 84, 100];
-  const nextProgress = () => {
-    const uiState = getState().ui;
-    const currentProgress = uiState.loadingProgress!;
-    const index = progresses.indexOf(currentProgress);
-    let nextProgress = 100;
-    if (index >= 0 && index < progresses.length) {
-      nextProgress = progresses[index + 1];
-    } else {
-      console.warn(`Next progress not found, current ${currentProgress}`, progresses);
+export const refresh =
+  (scope: RefreshScope = {}): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    dispatch(setLoadingProgress(0));
+    const helperState = getState().helper;
+    const helper = helperState.helper;
+
+    try {
+      // login on every refresh (if stored)
+      const credential = await getStoredCredential();
+      const finger = await getFinger();
+      credential && (await helper.login(credential.username, credential.password, finger));
+      dispatch(loggedIn());
+
+      if (isFullRefresh(scope)) {
+        const semesters = await helper.getSemesterIdList();
+        dispatch(updateSemesterList(semesters));
+
+        const s = await helper.getCurrentSemester();
+        dispatch(newSemester(s));
+
+        // user required to ignore semester problem
+        const data = getState().data;
+        const ui = getState().ui;
+        const ignoreSemester = data.insistSemester || ui.ignoreWrongSemester;
+
+        if (data.semester.type === SemesterType.UNKNOWN) {
+          // no semester info yet
+          dispatch(updateSemester(s));
+        } else if (s.id !== data.semester.id && !ignoreSemester) {
+          // stored semester differ with fetched one
+          dispatch(toggleNewSemesterDialog(true));
+          return;
+        }
+
+        dispatch(setLoadingProgress(10));
+
+        // get the latest semester id, since it can either be changed or not
+        const currentSemesterId = getState().data.semester.id;
+        // get all courses
+        const courses = await helper.getCourseList(currentSemesterId);
+        dispatch(updateCourses(courses));
+        dispatch(updateCourseNames());
+      }
+      dispatch(setLoadingProgress(20));
+    } catch (e) {
+      enqueueSnackbar(t`刷新失败：${formatError(e)}`, { variant: 'error' });
+      dispatch(setLoadingProgress());
+      dispatch(toggleLoginDialog(true));
+      return;
     }
-    dispatch(setLoadingProgress(nextProgress));
+
+    // only fetch what is needed
+    await dispatch(fetchContents(planRefresh(getState().data, scope)));
   };
 
+/** Retry the failed fetches in the last sync report. */
+export const retryFailedSync = (): AppThunk<Promise<void>> => async (dispatch, getState) => {
+  const report = getState().data.syncReport;
+  if (!report) return;
+
+  dispatch(setLoadingProgress(0));
+  const helper = getState().helper.helper;
   try {
-    // login on every refresh (if stored)
     const credential = await getStoredCredential();
     const finger = await getFinger();
     credential && (await helper.login(credential.username, credential.password, finger));
     dispatch(loggedIn());
-
-    const semesters = await helper.getSemesterIdList();
-    dispatch(updateSemesterList(semesters));
-
-    const s = await helper.getCurrentSemester();
-    dispatch(newSemester(s));
-
-    // user required to ignore semester problem
-    const data = getState().data;
-    const ui = getState().ui;
-    const ignoreSemester = data.insistSemester || ui.ignoreWrongSemester;
-
-    if (data.semester.type === SemesterType.UNKNOWN) {
-      // no semester info yet
-      dispatch(updateSemester(s));
-    } else if (s.id !== data.semester.id && !ignoreSemester) {
-      // stored semester differ with fetched one
-      dispatch(toggleNewSemesterDialog(true));
-      return;
-    }
-
-    nextProgress();
-
-    // get the latest semester id, since it can either be changed or not
-    const currentSemesterId = getState().data.semester.id;
-    // get all courses
-    const courses = await helper.getCourseList(currentSemesterId);
-    allCourseIds = courses.map((c) => c.id);
-    dispatch(updateCourses(courses));
-    dispatch(updateCourseNames());
-    nextProgress();
+    dispatch(setLoadingProgress(20));
   } catch (e) {
     enqueueSnackbar(t`刷新失败：${formatError(e)}`, { variant: 'error' });
     dispatch(setLoadingProgress());
@@ -186,84 +254,45 @@ export const refresh = (): AppThunk<Promise<void>> => async (dispatch, getState)
     return;
   }
 
-  // send all requests in parallel
-  const fetchAll = [
-    async () => {
-      const res = await helper.getAllContents(
-        allCourseIds,
-        ContentType.NOTIFICATION,
-        CourseType.STUDENT,
-        true,
-      );
-      dispatch(updateNotification(res));
-      nextProgress();
-    },
-    async () => {
-      const res = await helper.getAllContents(
-        allCourseIds,
-        ContentType.HOMEWORK,
-        CourseType.STUDENT,
-        true,
-      );
-      dispatch(updateHomework(res));
-      nextProgress();
-    },
-    async () => {
-      const res = await helper.getAllContents(
-        allCourseIds,
-        ContentType.FILE,
-        CourseType.STUDENT,
-        true,
-      );
-      dispatch(updateFile(res));
-      nextProgress();
-    },
-    async () => {
-      const res = await helper.getAllContents(
-        allCourseIds,
-        ContentType.DISCUSSION,
-        CourseType.STUDENT,
-        true,
-      );
-      dispatch(updateDiscussion(res));
-      nextProgress();
-    },
-    async () => {
-      const res = await helper.getAllContents(
-        allCourseIds,
-        ContentType.QUESTION,
-        CourseType.STUDENT,
-        true,
-      );
-      dispatch(updateQuestion(res));
-      nextProgress();
-    },
-  ];
-
-  // check results
-  const failures = (await Promise.allSettled(fetchAll.map((f) => f()))).filter(
-    (p) => p.status === 'rejected',
-  );
-  const allSuccess = failures.length === 0;
-  if (allSuccess) {
-    enqueueSnackbar(t`更新成功`, { variant: 'success' });
-  } else {
-    enqueueSnackbar(t`部分内容更新失败`, { variant: 'warning' });
-    console.warn('Failures occurred in fetching data', failures);
-  }
+  await dispatch(fetchContents(planRetry(report), report));
+};
 
-  // finish refreshing
-  dispatch(updateFinished());
-  dispatch(refreshCardList());
+// fetch contents and record the results, merging into `baseReport` if given
+const fetchContents =
+  (tasks: RefreshTask[], baseReport?: SyncReport): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const helper = getState().helper.helper;
+    let finished = 0;
 
-  // wait some time before hiding progress bar
-  new Promise<void>((resolve) => {
-    setTimeout(() => {
-      dispatch(setLoadingProgress());
-      resolve();
-    }, 1000);
-  });
-};
+    // send all requests in parallel, failed ones are retried inside
+    const report = await syncContents(helper, tasks, (type, contents) => {
+      dispatch(updateContent(type, contents));
+      finished += 1;
+      dispatch(setLoadingProgress(20 + (80 * finished) / tasks.length));
+    });
+    dispatch(updateSyncReport(baseReport ? mergeReports(baseReport, report) : report));
+
+    // check results
+    const failures = countFailures(report);
+    if (failures === 0) {
+      enqueueSnackbar(t`更新成功`, { variant: 'success' });
+    } else {
+      enqueueSnackbar(t`部分内容更新失败`, { variant: 'warning' });
+      console.warn(`${failures} failures occurred in fetching data`, report);
+    }
+
+    // finish refreshing
+    dispatch(updateFinished());
+    dispatch(refreshCardList());
+
+    // wait some time before hiding progress bar
+    new Promise<void>((resolve) => {
+      setTimeout(() => {
+        dispatch(setLoadingProgress());
+        resolve();
+      }, 1000);
+    });
+  };
 
 export const syncLanguage = (): AppThunk<Promise<void>> => async (_dispatch, getState) => {
   // try to sync language with Web Learning
@@ -275,6 +304,52 @@ export const syncLanguage = (): AppThunk<Promise<void>> => async (_dispatch, get
   }
 };
 
+export const exportBackup =
+  (colorMode: ColorMode): AppThunk<Promise<void>> =>
+  async (_dispatch, getState) => {
+    const backup = createBackup(getState().data, {
+      language: i18n.locale as Language,
+      colorMode,
+    });
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+    await initiateFileDownload(url, `learn-helper-backup-${date}.json`);
+    URL.revokeObjectURL(url);
+  };
+
+/** Merge a backup into current state, conflicting flags are kept unless `overwrite` is set. */
+export const restoreBackup =
+  (backup: Backup, preview: BackupPreview, overwrite: boolean): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    dispatch(
+      importBackup({
+        changes: overwrite ? [...preview.changes, ...preview.conflicts] : preview.changes,
+        pending: preview.missing,
+        contentIgnore: backup.contentIgnore,
+        insistSemester: backup.insistSemester,
+      }),
+    );
+    dispatch(refreshCardList());
+    if (backup.language && backup.language !== i18n.locale) {
+      i18n.activate(backup.language);
+      await dispatch(syncLanguage());
+    }
+    enqueueSnackbar(t`已导入备份`, { variant: 'success' });
+  };
+
+/** Switch to an archived semester, which is restored without fetching. */
+export const restoreArchivedSemester =
+  (semester: SemesterInfo): AppThunk =>
+  (dispatch) => {
+    dispatch(updateSemester(semester));
+    dispatch(insistSemester(false));
+    dispatch(toggleIgnoreWrongSemester(true));
+    dispatch(updateCourseNames());
+    dispatch(setCardFilter({}));
+    dispatch(refreshCardList());
+  };
+
 export const updateCourseNames = (): AppThunk<void> => (_dispatch, getState) => {
   const { courseMap } = getState().data;
   // load course names to i18n
@@ -298,17 +373,14 @@ export const updateCourseNames = (): AppThunk<void> => (_dispatch, getState) =>
   );
 };
 
-const compareBoolean = (a: boolean, b: boolean) => {
-  if (a === b) return 0;
-  if (a) return -1;
-  if (b) return 1;
-};
-
 export const refreshCardList = (): AppThunk<void> => (dispatch, getState) => {
   const state = getState();
   const data = selectDataLists(state);
   const contentIgnore = selectContentIgnore(state);
-  const { type, courseId } = state.ui.cardFilter;
+  const { muteRules } = state.data;
+  const now = Date.now();
+  const { type, courseId, viewId, tag } = state.ui.cardFilter;
+  const view = viewId ? state.data.customViews.find((v) => v.id === viewId) : undefined;
 
   let contents: ContentInfo[];
   if (type && type !== 'ignored') {
@@ -320,38 +392,52 @@ export const refreshCardList = (): AppThunk<void> => (dispatch, getState) => {
       data.homeworkList,
       data.discussionList,
       data.questionList,
+      data.todoList,
     );
   }
 
   dispatch(
     setCardList(
-      contents
-        .filter((c) =>
+      sortContents(
+        contents.filter((c) =>
           type === 'ignored'
             ? c.ignored
-            : courseId
-              ? c.courseId === courseId
-              : !contentIgnore[c.courseId]?.[c.type] && !c.ignored,
-        )
-        .sort((a, b) => {
-          const aNotDue = a.type === ContentType.HOMEWORK && a.date.getTime() > Date.now();
-          const bNotDue = b.type === ContentType.HOMEWORK && b.date.getTime() > Date.now();
-          return (
-            compareBoolean(a.starred, b.starred) ||
-            compareBoolean(!a.hasRead, !b.hasRead) ||
-            compareBoolean(aNotDue, bNotDue) ||
-            compareBoolean(aNotDue && !a.submitted, bNotDue && !b.submitted) ||
-            (a.date.getTime() - b.date.getTime()) * (aNotDue && bNotDue ? 1 : -1)
-          );
-        })
-        .map(({ type, id }) => ({ type, id })),
+            : tag !== undefined
+              ? !!c.tags?.includes(tag) && !c.ignored && !isSnoozed(c)
+              : courseId
+                ? c.courseId === courseId && !isSnoozed(c)
+                : !(c.courseId && contentIgnore[c.courseId]?.[c.type]) &&
+                  (c.type === 'todo' || !isMuted(c, muteRules, now)) &&
+                  !c.ignored &&
+                  !isSnoozed(c) &&
+                  (!view || matchView(view, c)),
+        ),
+        state.data.sortStrategies[cardFilterKey(state.ui.cardFilter)] ?? 'default',
+        state.data.courseMap,
+      ).map(({ type, id }) => ({ type, id })),
     ),
   );
-  dispatch(resetCardVisibilityThreshold());
 };
 
-export const downloadAllUnreadFiles =
-  (contents: ContentInfo[]): AppThunk<Promise<void>> =>
+/** Bring back contents whose snooze has expired, and show them if any. */
+export const wakeSnoozed = (): AppThunk<void> => (dispatch, getState) => {
+  const now = Date.now();
+  const lists = Object.values(selectDataLists(getState()));
+  if (!lists.some((list) => list.some((c) => isSnoozeExpired(c, now)))) return;
+  dispatch(wakeSnoozedContents(now));
+  dispatch(refreshCardList());
+};
+
+/** Drop mute rules whose time is up, and show the contents they hid if any. */
+export const expireMuteRules = (): AppThunk<void> => (dispatch, getState) => {
+  const now = Date.now();
+  if (getState().data.muteRules.every((rule) => isMuteActive(rule, now))) return;
+  dispatch(removeExpiredMuteRules(now));
+  dispatch(refreshCardList());
+};
+
+export const downloadFiles =
+  (files: FileInfo[]): AppThunk<Promise<void>> =>
   async (dispatch, getState) => {
     const helper = getState().helper.helper;
     try {
@@ -360,13 +446,79 @@ export const downloadAllUnreadFiles =
       enqueueSnackbar(t`登录已过期，请刷新后重试`, { variant: 'error' });
       return;
     }
-    for (const c of contents) {
-      if (c.type === ContentType.FILE && !c.hasRead) {
-        const file = c as FileInfo;
-        initiateFileDownload(file.downloadUrl);
-        dispatch(toggleReadState({ id: file.id, type: ContentType.FILE, state: true }));
+    for (const file of files) {
+      initiateFileDownload(file.downloadUrl);
+    }
+    dispatch(
+      toggleReadStates({
+        entries: files.map(({ id }) => ({ type: ContentType.FILE, id })),
+        state: true,
+      }),
+    );
+  };
+
+export const downloadAllUnreadFiles =
+  (contents: ContentInfo[]): AppThunk<Promise<void>> =>
+  (dispatch) =>
+    dispatch(
+      downloadFiles(
+        contents.filter((c): c is FileInfo => c.type === ContentType.FILE && !c.hasRead),
+      ),
+    );
+
+const loadMigratedData =
+  (appVersion: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    let stored: VersionedData | undefined;
+    try {
+      stored = await loadVersionedData(appVersion);
+    } catch (e) {
+      console.error(e);
+      // keep the stored data untouched, it may be loaded by a later attempt or version
+      suspendStoring();
+      enqueueSnackbar(t`加载数据失败，原有数据已保留且本次的更改不会被保存`, {
+        variant: 'error',
+        persist: true,
+      });
+      return;
+    }
+    if (stored === undefined) return;
+
+    const { data, applied, failed } = migrateData(stored);
+    if (failed) {
+      // keep the stored data for future versions to migrate again
+      suspendStoring();
+      enqueueSnackbar(
+        t`数据迁移失败（${i18n._(failed)}），原有数据已保留且本次的更改不会被保存，请尝试更新 Learn Helper`,
+        { variant: 'error', persist: true },
+      );
+      return;
+    }
+    if (applied.length !== 0) {
+      console.info(`Migrated data from schema version ${stored.version}`);
+      try {
+        await replaceStoredData(data);
+        await removeLegacyData();
+      } catch (e) {
+        console.error(e);
+        // the migrated data is still usable in this session, but must not be partially written
+        suspendStoring();
+        enqueueSnackbar(t`保存迁移后的数据失败，原有数据已保留且本次的更改不会被保存`, {
+          variant: 'error',
+          persist: true,
+        });
+        dispatch(loadData(data));
+        return;
+      }
+      if (stored.outdated) {
+        enqueueSnackbar(t`升级成功，所有本地数据（除配置）已经被清除`, { variant: 'warning' });
+      } else {
+        enqueueSnackbar(t`数据迁移完成：${applied.map((m) => i18n._(m)).join('；')}`, {
+          variant: 'info',
+        });
       }
     }
+    dispatch(loadData(data));
   };
 
 export interface LoadResult {
@@ -382,8 +534,9 @@ export const loadApp = (): AppThunk<Promise<LoadResult>> => async (dispatch) =>
     }
   }
 
-  const { [STORAGE_KEY_VERSION]: oldVersion, [STORAGE_KEY_REDUX]: oldData } =
-    await browser.storage.local.get([STORAGE_KEY_VERSION, STORAGE_KEY_REDUX]);
+  const { [STORAGE_KEY_VERSION]: oldVersion } = await browser.storage.local.get([
+    STORAGE_KEY_VERSION,
+  ]);
 
   const result: LoadResult = {};
 
@@ -391,89 +544,26 @@ export const loadApp = (): AppThunk<Promise<LoadResult>> => async (dispatch) =>
     // migrate from version < 4.0.0 or newly installed, clearing all data
     console.info('Migrating from legacy version, all data cleaned');
     await browser.storage.local.clear();
+    await clearStoredData();
     await browser.storage.local.set({
       [STORAGE_KEY_VERSION]: currentVersion,
     });
     result.navigate = 'readme';
     enqueueSnackbar(t`升级成功，所有本地数据已经被清除`, { variant: 'warning' });
-  } else if (oldVersion !== currentVersion) {
-    // for future migration
-    result.navigate = 'changelog';
-    // set stored version to current one
-    console.info(`Migrating from version ${oldVersion} to ${currentVersion}`);
-    await browser.storage.local.set({
-      [STORAGE_KEY_VERSION]: currentVersion,
-    });
-
-    // migrate from < 4.5, clearing all data except credential & config
-    if (compareVersion(oldVersion, '4.5.0', '<')) {
-      dispatch(clearFetchedData());
-      enqueueSnackbar(t`升级成功，所有本地数据（除配置）已经被清除`, { variant: 'warning' });
-    } else {
-      try {
-        if (compareVersion(oldVersion, '4.6.0', '<')) {
-          dispatch(
-            loadData(
-              JSON.parse(
-                JSON.parse(
-                  JSON.parse(
-                    (await browser.storage.local.get([STORAGE_KEY_REDUX_LEGACY]))[
-                      STORAGE_KEY_REDUX_LEGACY
-                    ],
-                  ).data,
-                ),
-                (key, value) => {
-                  if (typeof value === 'object' && '$jsan' in value) {
-                    // parse jsan
-                    // from https://github.com/kolodny/jsan/blob/7216568a9a7969dfa81b834236595e862fdde984/lib/utils.js#L23C48-L23C48
-                    const type = value.$jsan[0];
-                    const rest = value.$jsan.slice(1);
-                    if (type === 'd') return new Date(+rest);
-                    if (type === 'u') return undefined;
-                    // other types is not needed;
-                  }
-                  if (key.endsWith('Map')) return value.data;
-                  return value;
-                },
-              ),
-            ),
-          );
-        }
-        enqueueSnackbar(t`升级成功，数据没有受到影响`, { variant: 'info' });
-      } catch (e) {
-        console.error(e);
-        await browser.storage.local.clear();
-        enqueueSnackbar(t`迁移失败，已清除全部数据`, { variant: 'error' });
-      }
-    }
   } else {
-    console.info('Migration not necessary.');
-
-    if (oldData !== undefined) {
-      try {
-        dispatch(
-          loadData(
-            JSON.parse(oldData, (key, value) => {
-              if (
-                key === 'date' ||
-                key === 'deadline' ||
-                key.endsWith('Date') ||
-                key.endsWith('Time')
-              )
-                return new Date(value);
-              return value;
-            }),
-          ),
-        );
-      } catch (e) {
-        console.error(e);
-        await browser.storage.local.remove(STORAGE_KEY_REDUX);
-        enqueueSnackbar(t`加载数据失败，已清除数据`, { variant: 'error' });
-      }
+    if (oldVersion !== currentVersion) {
+      result.navigate = 'changelog';
+      // set stored version to current one
+      console.info(`Upgrading from version ${oldVersion} to ${currentVersion}`);
+      await browser.storage.local.set({
+        [STORAGE_KEY_VERSION]: currentVersion,
+      });
     }
+    await dispatch(loadMigratedData(oldVersion));
   }
 
   dispatch(updateCourseNames());
+  dispatch(wakeSnoozed());
   dispatch(refreshCardList());
   dispatch(tryLoginSilently());
   return result;
@@ -483,19 +573,24 @@ export const resetApp =
   (full = false): AppThunk<Promise<void>> =>
   async (dispatch) => {
     if (full) {
+      // the state in memory must not be written back, neither by pending writes nor on unloading
+      suspendStoring();
       // clear all data
       await browser.storage.local.clear();
+      await clearStoredData();
       // refresh page
       window.location.replace(window.location.href);
     } else {
+      // clear the state first, so that any later write only stores the cleared state
+      dispatch(loggedOut());
+      dispatch(clearAllData());
       // clear all data
       await browser.storage.local.clear();
+      await clearStoredData();
       await browser.storage.local.set({
         [STORAGE_KEY_VERSION]: currentVersion,
       });
 
-      dispatch(loggedOut());
-      dispatch(clearAllData());
       dispatch(setCardFilter({}));
       dispatch(refreshCardList());
     }
@@ -1,6 +1,7 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 import {
   ContentType,
+  type ContentTypeMap,
   type CourseContent,
   type CourseInfo,
   type Homework,
@@ -8,21 +9,113 @@ import {
   SemesterType,
 } from 'thu-learn-lib';
 
+import {
+  CARD_CONTENT_TYPES,
+  CHANGE_LOG_MAX_SIZE,
+  RULE_LOG_MAX_SIZE,
+  SUPPORTED_CONTENT_TYPES,
+} from '../../constants';
 import type {
+  CardContentType,
+  ContentInfo,
   DiscussionInfo,
+  FetchedContentInfo,
   FileInfo,
   HomeworkInfo,
+  HomeworkProgress,
   NotificationInfo,
   QuestionInfo,
   SupportedContentType,
+  TodoInfo,
 } from '../../types/data';
+import type { BackupFlags, FlagsChange } from '../../utils/backup';
+import { CREATED_FIELD, diffFields } from '../../utils/changelog';
+import type { FailReasonKey } from '../../utils/format';
+import type { CardGrouping } from '../../utils/group';
+import { isMuteActive, type MuteRule } from '../../utils/mute';
+import { isProgressEmpty } from '../../utils/progress';
+import { applyActions, matchRule, type Rule } from '../../utils/rule';
+import type { ShortcutAction } from '../../utils/shortcut';
+import type { SortStrategy } from '../../utils/sort';
+import type { CustomView } from '../../utils/view';
 
-interface IContentIgnore {
+export interface IContentIgnore {
   [courseId: string]: {
     [type: string]: boolean;
   };
 }
 
+export interface NotifySettings {
+  enabled: boolean;
+  grouped: boolean; // one notification per course instead of per item
+  types: Record<SupportedContentType, boolean>;
+  courses: Record<string, boolean>; // courses not listed are enabled
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  offsets: number[]; // minutes before deadline
+  lateSubmission: boolean; // also remind before late submission deadline
+}
+
+export interface SyncRecord {
+  success: boolean;
+  duration: number; // in milliseconds, including retries
+  attempts: number;
+  reason?: FailReasonKey; // set when failed
+}
+
+export interface SyncReport {
+  startedAt: number; // in milliseconds
+  finishedAt: number;
+  records: Record<SupportedContentType, Record<string, SyncRecord>>; // by course id
+}
+
+// dates are stored in milliseconds, `null` for empty values
+export type ChangeValue = string | number | null;
+
+export interface ChangeLogEntry {
+  id: string;
+  type: SupportedContentType;
+  contentId: string;
+  courseId: string;
+  title: string;
+  field: string; // tracked field of the content, or `created` for new ones
+  oldValue: ChangeValue;
+  newValue: ChangeValue;
+  detectedAt: number; // in milliseconds
+}
+
+export interface RuleLogEntry {
+  id: string;
+  ruleId: string;
+  type: SupportedContentType;
+  contentId: string;
+  courseId: string;
+  title: string;
+  matchedAt: number; // in milliseconds
+}
+
+// fields that belong to a semester, which are archived when switching semesters
+const SEMESTER_FIELDS = [
+  'courseMap',
+  'notificationMap',
+  'fileMap',
+  'homeworkMap',
+  'discussionMap',
+  'questionMap',
+  'fetchTimestamps',
+  'changeLog',
+  'contentIgnore',
+] as const;
+
+export type SemesterData = Pick<DataState, (typeof SEMESTER_FIELDS)[number]>;
+
+export interface SemesterArchive extends SemesterData {
+  semester: SemesterInfo;
+  archivedAt: number; // in milliseconds
+}
+
 export interface DataState {
   semesters: string[]; // all available semesters return by Web Learning
   semester: SemesterInfo; // current semester of Learn Helper
@@ -34,9 +127,28 @@ export interface DataState {
   homeworkMap: Record<string, HomeworkInfo>;
   discussionMap: Record<string, DiscussionInfo>;
   questionMap: Record<string, QuestionInfo>;
+  todoMap: Record<string, TodoInfo>; // created by the user, not bound to any semester
   lastUpdateTime: Date;
   updateFinished: boolean;
+  // when contents of each type & course were fetched last time, in milliseconds
+  fetchTimestamps: Record<SupportedContentType, Record<string, number>>;
+  syncReport?: SyncReport; // result of the last sync
+  changeLog: ChangeLogEntry[]; // newest first
   contentIgnore: IContentIgnore;
+  archive: Record<string, SemesterArchive>; // by semester id, not including current semester
+  notifySettings: NotifySettings;
+  reminderSettings: ReminderSettings;
+  customViews: CustomView[]; // in the order shown in summary list
+  rules: Rule[]; // applied to newly fetched contents
+  ruleLog: RuleLogEntry[]; // newest first
+  muteRules: MuteRule[];
+  // flags from a backup of contents not fetched yet, applied once they are
+  pendingFlags: Partial<BackupFlags>;
+  // markdown notes by `${type}-${id}` of contents, kept apart so that fetching never touches them
+  notes: Record<string, string>;
+  sortStrategies: Record<string, SortStrategy>; // by key of card filter, default if not set
+  cardGrouping: CardGrouping;
+  shortcuts: Partial<Record<ShortcutAction, string>>; // default key sequence if not set
 }
 
 const semesterPlaceholder: SemesterInfo = {
@@ -59,80 +171,273 @@ const initialState: DataState = {
   homeworkMap: {},
   discussionMap: {},
   questionMap: {},
+  todoMap: {},
   lastUpdateTime: new Date(0),
   updateFinished: false,
+  fetchTimestamps: {
+    [ContentType.NOTIFICATION]: {},
+    [ContentType.FILE]: {},
+    [ContentType.HOMEWORK]: {},
+    [ContentType.DISCUSSION]: {},
+    [ContentType.QUESTION]: {},
+  },
+  changeLog: [],
   contentIgnore: {},
+  archive: {},
+  notifySettings: {
+    enabled: true,
+    grouped: false,
+    types: {
+      [ContentType.NOTIFICATION]: true,
+      [ContentType.FILE]: true,
+      [ContentType.HOMEWORK]: true,
+      [ContentType.DISCUSSION]: false,
+      [ContentType.QUESTION]: false,
+    },
+    courses: {},
+  },
+  reminderSettings: {
+    enabled: true,
+    offsets: [3 * 24 * 60, 24 * 60, 2 * 60],
+    lateSubmission: false,
+  },
+  customViews: [],
+  rules: [],
+  ruleLog: [],
+  muteRules: [],
+  pendingFlags: {},
+  notes: {},
+  sortStrategies: {},
+  cardGrouping: 'none',
+  shortcuts: {},
 };
 
+const dateKeyMap = {
+  [ContentType.NOTIFICATION]: 'publishTime',
+  [ContentType.FILE]: 'uploadTime',
+  [ContentType.HOMEWORK]: 'deadline',
+  [ContentType.DISCUSSION]: 'publishTime',
+  [ContentType.QUESTION]: 'publishTime',
+} as const;
+
+const getDate = (contentType: SupportedContentType, c: ContentTypeMap[SupportedContentType]) =>
+  (c as unknown as Record<string, Date>)[dateKeyMap[contentType]];
+
+export type ContentChangeKind = 'new' | 'updated' | 'graded';
+
+export interface ContentChange {
+  type: SupportedContentType;
+  id: string;
+  courseId: string;
+  title: string;
+  kind: ContentChangeKind;
+}
+
+// compare the time of two contents (including undefined)
+// if they differ, the content should be marked as unread
+function detectChange(
+  contentType: SupportedContentType,
+  oldContent: FetchedContentInfo | undefined,
+  c: ContentTypeMap[SupportedContentType],
+): ContentChangeKind | undefined {
+  if (!oldContent) return 'new';
+  if (getDate(contentType, c).getTime() !== oldContent.date.getTime()) return 'updated';
+  if (contentType === ContentType.HOMEWORK) {
+    const oldGradeTime = (oldContent as Homework).gradeTime;
+    const newGradeTime = (c as Homework).gradeTime;
+    if (newGradeTime && !oldGradeTime) {
+      // newly-graded homework
+      return 'graded';
+    }
+    if (
+      newGradeTime &&
+      oldGradeTime &&
+      // re-graded homework
+      newGradeTime.getTime() !== oldGradeTime.getTime()
+    ) {
+      return 'graded';
+    }
+  }
+}
+
+/** Find out new or updated contents without touching the state, e.g. for notifications. */
+export function diffContents<T extends SupportedContentType>(
+  state: DataState,
+  contentType: T,
+  fetchedData: CourseContent<T>,
+): ContentChange[] {
+  const oldData: Record<string, FetchedContentInfo> = state[`${contentType}Map`];
+  const changes: ContentChange[] = [];
+  for (const [cid, contents] of Object.entries(fetchedData)) {
+    for (const c of contents) {
+      const kind = detectChange(contentType, oldData[c.id], c);
+      if (kind) changes.push({ type: contentType, id: c.id, courseId: cid, title: c.title, kind });
+    }
+  }
+  return changes;
+}
+
 function update<T extends SupportedContentType>(
   state: DataState,
   contentType: T,
   fetchedData: CourseContent<T>,
 ) {
-  const oldData = state[`${contentType}Map`];
-
-  const result = {} as typeof oldData;
-  const dateKeyMap = {
-    [ContentType.NOTIFICATION]: 'publishTime',
-    [ContentType.FILE]: 'uploadTime',
-    [ContentType.HOMEWORK]: 'deadline',
-    [ContentType.DISCUSSION]: 'publishTime',
-    [ContentType.QUESTION]: 'publishTime',
-  } as const;
-  const dateKey = dateKeyMap[contentType];
+  const oldData: Record<string, FetchedContentInfo> = state[`${contentType}Map`];
+
+  // keep contents of courses that are not fetched this time
+  const result = Object.fromEntries(
+    Object.entries(oldData).filter(([_id, c]) => !(c.courseId in fetchedData)),
+  );
+
+  const now = Date.now();
+  // everything is new on the first fetch, do not flood the change log
+  const firstFetch = Object.keys(oldData).length === 0;
+  const changes: ChangeLogEntry[] = [];
+  const ruleMatches: RuleLogEntry[] = [];
 
   // we always use the fetched data
   for (const [cid, contents] of Object.entries(fetchedData)) {
     for (const c of contents) {
-      // compare the time of two contents (including undefined)
-      // if they differ, mark the content as unread
       const oldContent = oldData[c.id];
-      // FIXME: type issues
-      const newDate = c[dateKey];
-      let updated = true;
       if (oldContent) {
-        if (newDate.getTime() === oldContent[dateKey].getTime()) {
-          // the date is not modified
-          updated = false;
-          if (contentType === ContentType.HOMEWORK) {
-            const oldGradeTime = (oldContent as Homework).gradeTime;
-            const newGradeTime = (c as Homework).gradeTime;
-            if (newGradeTime && !oldGradeTime) {
-              // newly-graded homework
-              updated = true;
-            } else if (
-              newGradeTime &&
-              oldGradeTime &&
-              // re-graded homework
-              newGradeTime.getTime() !== oldGradeTime.getTime()
-            ) {
-              updated = true;
-            }
-          }
-        }
+        changes.push(...diffFields(contentType, oldContent, c, now));
+      } else if (!firstFetch) {
+        changes.push({
+          id: `${contentType}-${c.id}-${CREATED_FIELD}-${now}`,
+          type: contentType,
+          contentId: c.id,
+          courseId: cid,
+          title: c.title,
+          field: CREATED_FIELD,
+          oldValue: null,
+          newValue: null,
+          detectedAt: now,
+        });
       }
+      const updated = detectChange(contentType, oldContent, c) !== undefined;
       // copy other attributes either way
-      result[c.id] = {
+      const content = {
         ...c,
         courseId: cid,
         ignored: oldContent?.ignored ?? false,
         type: contentType,
-        date: newDate,
+        date: getDate(contentType, c),
         hasRead: !updated && (oldContent?.hasRead ?? false),
         starred: oldContent?.starred ?? false,
+        snoozedUntil: oldContent?.snoozedUntil,
+        tags: oldContent?.tags,
+        progress: (oldContent as HomeworkInfo | undefined)?.progress,
+      } as FetchedContentInfo;
+      if (!oldContent) {
+        for (const rule of state.rules) {
+          if (!rule.enabled || !matchRule(rule, content)) continue;
+          applyActions(content, rule.actions);
+          ruleMatches.push({
+            id: `${rule.id}-${contentType}-${c.id}-${now}`,
+            ruleId: rule.id,
+            type: contentType,
+            contentId: c.id,
+            courseId: cid,
+            title: c.title,
+            matchedAt: now,
+          });
+        }
+        const flags = state.pendingFlags[contentType]?.[c.id];
+        if (flags) {
+          Object.assign(content, flags);
+          delete state.pendingFlags[contentType]?.[c.id];
+        }
+      }
+      result[c.id] = content;
+    }
+  }
+
+  state[`${contentType}Map`] = result as DataState[`${T}Map`];
+
+  if (changes.length !== 0) {
+    state.changeLog = [...changes, ...state.changeLog].slice(0, CHANGE_LOG_MAX_SIZE);
+  }
+  if (ruleMatches.length !== 0) {
+    state.ruleLog = [...ruleMatches, ...state.ruleLog].slice(0, RULE_LOG_MAX_SIZE);
+  }
+
+  const timestamps: Record<string, number> = state.fetchTimestamps[contentType];
+  for (const cid of Object.keys(fetchedData)) {
+    timestamps[cid] = now;
+  }
+}
+
+const pickSemesterData = (data: SemesterData): SemesterData =>
+  Object.fromEntries(SEMESTER_FIELDS.map((key) => [key, data[key]])) as SemesterData;
+
+// archive data of current semester and restore that of the new one (if any)
+function changeSemester(state: DataState, semester: SemesterInfo) {
+  const current = state.semester;
+  // nothing to archive before the first semester is set
+  if (current.id && semester.id !== current.id) {
+    if (Object.keys(state.courseMap).length !== 0) {
+      state.archive[current.id] = {
+        ...pickSemesterData(state),
+        semester: current,
+        archivedAt: Date.now(),
       };
     }
+    Object.assign(state, pickSemesterData(state.archive[semester.id] ?? initialState));
+    delete state.archive[semester.id];
+    state.lastUpdateTime = new Date(0);
+    state.syncReport = undefined;
   }
+  state.semester = semester;
+}
 
-  state[`${contentType}Map`] = result;
+interface ImportBackupPayload {
+  changes: FlagsChange[];
+  pending: FlagsChange[];
+  contentIgnore: IContentIgnore;
+  insistSemester: boolean;
 }
 
 interface ToggleStatePayload {
   id: string;
-  type: SupportedContentType;
+  type: CardContentType;
   state: boolean;
 }
 
+export type ContentRef = Omit<ToggleStatePayload, 'state'>;
+
+interface SnoozePayload extends ContentRef {
+  until?: number; // cancel snoozing if not set
+}
+
+interface TagsPayload extends ContentRef {
+  tags: string[];
+}
+
+interface HomeworkProgressPayload {
+  id: string;
+  progress: HomeworkProgress;
+}
+
+interface NotePayload extends ContentRef {
+  note: string; // removed if blank
+}
+
+interface ToggleStatesPayload {
+  entries: ContentRef[];
+  state: boolean;
+}
+
+function setStates(
+  state: DataState,
+  { entries, state: value }: ToggleStatesPayload,
+  field: 'hasRead' | 'starred' | 'ignored',
+) {
+  for (const { type, id } of entries) {
+    const content = state[`${type}Map`][id];
+    if (content) content[field] = value;
+  }
+}
+
 const IGNORE_UNSET_ALL = {
   [ContentType.NOTIFICATION]: false,
   [ContentType.FILE]: false,
@@ -155,10 +460,10 @@ export const dataSlice = createSlice({
       state.semesters = action.payload;
     },
     updateSemester: (state, action: PayloadAction<SemesterInfo>) => {
-      state.semester = action.payload;
+      changeSemester(state, action.payload);
     },
     syncSemester: (state) => {
-      state.semester = state.fetchedSemester;
+      changeSemester(state, state.fetchedSemester);
     },
     updateCourses: (state, action: PayloadAction<CourseInfo[]>) => {
       action.payload.sort((a, b) => a.id.localeCompare(b.id));
@@ -169,6 +474,17 @@ export const dataSlice = createSlice({
       for (const cid of Object.keys(state.courseMap)) {
         state.contentIgnore[cid] ??= { ...IGNORE_UNSET_ALL };
       }
+      // contents are merged per course, so clean up those of dropped courses
+      for (const type of SUPPORTED_CONTENT_TYPES) {
+        const contentMap: Record<string, FetchedContentInfo> = state[`${type}Map`];
+        for (const [id, c] of Object.entries(contentMap)) {
+          if (!state.courseMap[c.courseId]) delete contentMap[id];
+        }
+        for (const cid of Object.keys(state.fetchTimestamps[type])) {
+          if (!state.courseMap[cid]) delete state.fetchTimestamps[type][cid];
+        }
+      }
+      state.changeLog = state.changeLog.filter((e) => state.courseMap[e.courseId]);
     },
     updateNotification: (state, action: PayloadAction<CourseContent<ContentType.NOTIFICATION>>) => {
       update(state, ContentType.NOTIFICATION, action.payload);
@@ -198,6 +514,9 @@ export const dataSlice = createSlice({
     updateFinished: (state) => {
       state.updateFinished = true;
     },
+    updateSyncReport: (state, action: PayloadAction<SyncReport>) => {
+      state.syncReport = action.payload;
+    },
     toggleReadState: (state, action: PayloadAction<ToggleStatePayload>) => {
       state[`${action.payload.type}Map`][action.payload.id].hasRead = action.payload.state;
     },
@@ -207,6 +526,85 @@ export const dataSlice = createSlice({
     toggleIgnoreState: (state, action: PayloadAction<ToggleStatePayload>) => {
       state[`${action.payload.type}Map`][action.payload.id].ignored = action.payload.state;
     },
+    snoozeContent: (state, action: PayloadAction<SnoozePayload>) => {
+      const { type, id, until } = action.payload;
+      state[`${type}Map`][id].snoozedUntil = until;
+    },
+    setContentTags: (state, action: PayloadAction<TagsPayload>) => {
+      const { type, id, tags } = action.payload;
+      state[`${type}Map`][id].tags = tags.length === 0 ? undefined : tags;
+    },
+    setHomeworkProgress: (state, action: PayloadAction<HomeworkProgressPayload>) => {
+      const { id, progress } = action.payload;
+      state.homeworkMap[id].progress = isProgressEmpty(progress) ? undefined : progress;
+    },
+    setContentNote: (state, action: PayloadAction<NotePayload>) => {
+      const { type, id, note } = action.payload;
+      if (note.trim() === '') delete state.notes[`${type}-${id}`];
+      else state.notes[`${type}-${id}`] = note;
+    },
+    renameTag: (state, action: PayloadAction<{ from: string; to: string }>) => {
+      const { from, to } = action.payload;
+      for (const type of CARD_CONTENT_TYPES) {
+        const contentMap: Record<string, ContentInfo> = state[`${type}Map`];
+        for (const c of Object.values(contentMap)) {
+          if (c.tags?.includes(from)) {
+            c.tags = Array.from(new Set(c.tags.map((tag) => (tag === from ? to : tag))));
+          }
+        }
+      }
+    },
+    removeTag: (state, action: PayloadAction<string>) => {
+      for (const type of CARD_CONTENT_TYPES) {
+        const contentMap: Record<string, ContentInfo> = state[`${type}Map`];
+        for (const c of Object.values(contentMap)) {
+          if (!c.tags?.includes(action.payload)) continue;
+          const tags = c.tags.filter((tag) => tag !== action.payload);
+          c.tags = tags.length === 0 ? undefined : tags;
+        }
+      }
+    },
+    // snoozed contents come back as unread, the payload is the current time
+    wakeSnoozedContents: (state, action: PayloadAction<number>) => {
+      for (const type of CARD_CONTENT_TYPES) {
+        const contentMap: Record<string, ContentInfo> = state[`${type}Map`];
+        for (const c of Object.values(contentMap)) {
+          if (c.snoozedUntil !== undefined && c.snoozedUntil <= action.payload) {
+            c.snoozedUntil = undefined;
+            c.hasRead = false;
+          }
+        }
+      }
+    },
+    importBackup: (state, action: PayloadAction<ImportBackupPayload>) => {
+      const { changes, pending, contentIgnore, insistSemester } = action.payload;
+      for (const { type, id, flags } of changes) {
+        const content = state[`${type}Map`][id];
+        if (content) Object.assign(content, flags);
+      }
+      for (const { type, id, flags } of pending) {
+        state.pendingFlags[type] = { ...state.pendingFlags[type], [id]: flags };
+      }
+      // hidden types are merged, courses not in current semester are dropped
+      for (const [cid, types] of Object.entries(contentIgnore)) {
+        const current = state.contentIgnore[cid];
+        if (!current) continue;
+        for (const [type, ignored] of Object.entries(types)) {
+          if (ignored) current[type] = true;
+        }
+      }
+      state.insistSemester = insistSemester;
+    },
+    // bulk versions of the above, so that a batch is one change (and one write)
+    toggleReadStates: (state, action: PayloadAction<ToggleStatesPayload>) => {
+      setStates(state, action.payload, 'hasRead');
+    },
+    toggleStarStates: (state, action: PayloadAction<ToggleStatesPayload>) => {
+      setStates(state, action.payload, 'starred');
+    },
+    toggleIgnoreStates: (state, action: PayloadAction<ToggleStatesPayload>) => {
+      setStates(state, action.payload, 'ignored');
+    },
     toggleContentIgnore: (state, action: PayloadAction<ToggleStatePayload>) => {
       state.contentIgnore[action.payload.id][action.payload.type] = action.payload.state;
     },
@@ -216,12 +614,111 @@ export const dataSlice = createSlice({
       );
       state.updateFinished = false;
     },
+    saveMuteRule: (state, action: PayloadAction<MuteRule>) => {
+      const index = state.muteRules.findIndex((r) => r.id === action.payload.id);
+      if (index === -1) state.muteRules.push(action.payload);
+      else state.muteRules[index] = action.payload;
+    },
+    removeMuteRule: (state, action: PayloadAction<string>) => {
+      state.muteRules = state.muteRules.filter((r) => r.id !== action.payload);
+    },
+    // the payload is the current time
+    removeExpiredMuteRules: (state, action: PayloadAction<number>) => {
+      state.muteRules = state.muteRules.filter((r) => isMuteActive(r, action.payload));
+    },
+    toggleNotifyEnabled: (state, action: PayloadAction<boolean>) => {
+      state.notifySettings.enabled = action.payload;
+    },
+    toggleNotifyGrouped: (state, action: PayloadAction<boolean>) => {
+      state.notifySettings.grouped = action.payload;
+    },
+    toggleNotifyType: (
+      state,
+      action: PayloadAction<{ type: SupportedContentType; state: boolean }>,
+    ) => {
+      state.notifySettings.types[action.payload.type] = action.payload.state;
+    },
+    toggleNotifyCourse: (state, action: PayloadAction<Omit<ToggleStatePayload, 'type'>>) => {
+      state.notifySettings.courses[action.payload.id] = action.payload.state;
+    },
+    toggleReminderEnabled: (state, action: PayloadAction<boolean>) => {
+      state.reminderSettings.enabled = action.payload;
+    },
+    toggleLateSubmissionReminder: (state, action: PayloadAction<boolean>) => {
+      state.reminderSettings.lateSubmission = action.payload;
+    },
+    addReminderOffset: (state, action: PayloadAction<number>) => {
+      const { offsets } = state.reminderSettings;
+      if (!offsets.includes(action.payload)) {
+        offsets.push(action.payload);
+        offsets.sort((a, b) => b - a);
+      }
+    },
+    removeReminderOffset: (state, action: PayloadAction<number>) => {
+      state.reminderSettings.offsets = state.reminderSettings.offsets.filter(
+        (o) => o !== action.payload,
+      );
+    },
+    setSortStrategy: (state, action: PayloadAction<{ key: string; strategy: SortStrategy }>) => {
+      state.sortStrategies[action.payload.key] = action.payload.strategy;
+    },
+    setCardGrouping: (state, action: PayloadAction<CardGrouping>) => {
+      state.cardGrouping = action.payload;
+    },
+    setShortcut: (state, action: PayloadAction<{ action: ShortcutAction; keys?: string }>) => {
+      const { action: shortcut, keys } = action.payload;
+      if (keys === undefined) delete state.shortcuts[shortcut];
+      else state.shortcuts[shortcut] = keys;
+    },
+    resetShortcuts: (state) => {
+      state.shortcuts = {};
+    },
+    saveCustomView: (state, action: PayloadAction<CustomView>) => {
+      const index = state.customViews.findIndex((v) => v.id === action.payload.id);
+      if (index === -1) state.customViews.push(action.payload);
+      else state.customViews[index] = action.payload;
+    },
+    removeCustomView: (state, action: PayloadAction<string>) => {
+      state.customViews = state.customViews.filter((v) => v.id !== action.payload);
+    },
+    moveCustomView: (state, action: PayloadAction<{ id: string; offset: number }>) => {
+      const { customViews } = state;
+      const from = customViews.findIndex((v) => v.id === action.payload.id);
+      const to = from + action.payload.offset;
+      if (from === -1 || to < 0 || to >= customViews.length) return;
+      const [view] = customViews.splice(from, 1);
+      customViews.splice(to, 0, view);
+    },
+    saveRule: (state, action: PayloadAction<Rule>) => {
+      const index = state.rules.findIndex((r) => r.id === action.payload.id);
+      if (index === -1) state.rules.push(action.payload);
+      else state.rules[index] = action.payload;
+    },
+    removeRule: (state, action: PayloadAction<string>) => {
+      state.rules = state.rules.filter((r) => r.id !== action.payload);
+      state.ruleLog = state.ruleLog.filter((e) => e.ruleId !== action.payload);
+    },
+    toggleRuleEnabled: (state, action: PayloadAction<Omit<ToggleStatePayload, 'type'>>) => {
+      const rule = state.rules.find((r) => r.id === action.payload.id);
+      if (rule) rule.enabled = action.payload.state;
+    },
+    clearRuleLog: (state) => {
+      state.ruleLog = [];
+    },
+    saveTodo: (state, action: PayloadAction<TodoInfo>) => {
+      state.todoMap[action.payload.id] = action.payload;
+    },
+    removeTodo: (state, action: PayloadAction<string>) => {
+      delete state.todoMap[action.payload];
+      delete state.notes[`todo-${action.payload}`];
+    },
     markAllRead: (state) => {
       for (const c of Object.values(state.notificationMap)) c.hasRead = true;
       for (const c of Object.values(state.fileMap)) c.hasRead = true;
       for (const c of Object.values(state.homeworkMap)) c.hasRead = true;
       for (const c of Object.values(state.discussionMap)) c.hasRead = true;
       for (const c of Object.values(state.questionMap)) c.hasRead = true;
+      for (const c of Object.values(state.todoMap)) c.hasRead = true;
     },
     clearAllData: () => {
       return initialState;
@@ -234,6 +731,10 @@ export const dataSlice = createSlice({
       state.discussionMap = {};
       state.questionMap = {};
       state.lastUpdateTime = new Date(0);
+      state.fetchTimestamps = initialState.fetchTimestamps;
+      state.syncReport = undefined;
+      state.changeLog = [];
+      state.archive = {};
     },
     loadData: (_state, action: PayloadAction<Partial<DataState>>) => {
       return { ...initialState, ...action.payload };
@@ -241,4 +742,20 @@ export const dataSlice = createSlice({
   },
 });
 
+const updateContentActions: {
+  [T in SupportedContentType]: (payload: CourseContent<T>) => PayloadAction<CourseContent<T>>;
+} = {
+  [ContentType.NOTIFICATION]: dataSlice.actions.updateNotification,
+  [ContentType.FILE]: dataSlice.actions.updateFile,
+  [ContentType.HOMEWORK]: dataSlice.actions.updateHomework,
+  [ContentType.DISCUSSION]: dataSlice.actions.updateDiscussion,
+  [ContentType.QUESTION]: dataSlice.actions.updateQuestion,
+};
+
+/** Create the `update*` action of given content type. */
+export const updateContent = <T extends SupportedContentType>(
+  type: T,
+  contents: CourseContent<T>,
+) => updateContentActions[type](contents);
+
 export default dataSlice.reducer;
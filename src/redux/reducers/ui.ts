@@ -1,15 +1,16 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
-import { CARD_BATCH_LOAD_SIZE } from '../../constants';
-import type { SupportedContentType } from '../../types/data';
+import type { CardContentType, SupportedContentType } from '../../types/data';
 
 interface CardEntry {
-  type: SupportedContentType;
+  type: CardContentType;
   id: string;
 }
-interface CardFilter {
+export interface CardFilter {
   type?: SupportedContentType | 'ignored';
   courseId?: string;
+  viewId?: string; // id of a custom view, other fields are unset if set
+  tag?: string; // other fields are unset if set
 }
 
 export interface UiState {
@@ -22,10 +23,13 @@ export interface UiState {
   ignoreWrongSemester: boolean;
   showLogoutDialog: boolean;
   showClearDataDialog: boolean;
-  cardVisibilityThreshold: number;
   cardList: CardEntry[];
   cardFilter: CardFilter;
-  titleFilter?: string;
+  searchQuery?: string; // raw text of the query, see `utils/query`
+  selectionMode: boolean;
+  showShortcutDialog: boolean;
+  showTodoDialog: boolean;
+  editingTodo?: string; // id of the to-do in the dialog, a new one is created if unset
 }
 
 const initialState: UiState = {
@@ -38,10 +42,13 @@ const initialState: UiState = {
   showLogoutDialog: false,
   showClearDataDialog: false,
   showChangeSemesterDialog: false,
-  cardVisibilityThreshold: CARD_BATCH_LOAD_SIZE,
   cardList: [],
   cardFilter: {},
-  titleFilter: undefined,
+  searchQuery: undefined,
+  selectionMode: false,
+  showShortcutDialog: false,
+  showTodoDialog: false,
+  editingTodo: undefined,
 };
 
 export const uiSlice = createSlice({
@@ -79,20 +86,28 @@ export const uiSlice = createSlice({
     toggleChangeSemesterDialog: (state, action: PayloadAction<boolean>) => {
       state.showChangeSemesterDialog = action.payload;
     },
-    resetCardVisibilityThreshold: (state) => {
-      state.cardVisibilityThreshold = CARD_BATCH_LOAD_SIZE;
-    },
-    loadMoreCard: (state) => {
-      state.cardVisibilityThreshold += CARD_BATCH_LOAD_SIZE;
-    },
     setCardList: (state, action: PayloadAction<CardEntry[]>) => {
       state.cardList = action.payload;
     },
     setCardFilter: (state, action: PayloadAction<CardFilter>) => {
       state.cardFilter = action.payload;
     },
-    setTitleFilter: (state, action: PayloadAction<string | undefined>) => {
-      state.titleFilter = action.payload;
+    toggleSelectionMode: (state, action: PayloadAction<boolean>) => {
+      state.selectionMode = action.payload;
+    },
+    toggleShortcutDialog: (state, action: PayloadAction<boolean>) => {
+      state.showShortcutDialog = action.payload;
+    },
+    // a string opens the dialog to edit the to-do with that id
+    toggleTodoDialog: (state, action: PayloadAction<boolean | string>) => {
+      state.showTodoDialog = action.payload !== false;
+      // kept while closing, so that the dialog does not change during the transition
+      if (action.payload !== false) {
+        state.editingTodo = typeof action.payload === 'string' ? action.payload : undefined;
+      }
+    },
+    setSearchQuery: (state, action: PayloadAction<string | undefined>) => {
+      state.searchQuery = action.payload;
     },
   },
 });
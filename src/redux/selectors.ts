@@ -1,10 +1,12 @@
 import type { MessageDescriptor } from '@lingui/core';
 import { msg } from '@lingui/core/macro';
 import { memoize } from 'proxy-memoize';
-import { ContentType } from 'thu-learn-lib';
 
 import { UI_NAME_COURSE, UI_NAME_SUMMARY } from '../constants/ui';
-import type { ContentInfo } from '../types/data';
+import { parseQuery } from '../utils/query';
+import { resolveShortcuts } from '../utils/shortcut';
+import { countTags } from '../utils/tag';
+import { countUnread, countViewUnread, EMPTY_UNREAD_MAP, type UnreadMap } from '../utils/unread';
 import type { RootState } from './store';
 
 export const selectCourseList = memoize((state: RootState) => Object.values(state.data.courseMap));
@@ -22,48 +24,28 @@ export const selectDiscussionList = memoize((state: RootState) =>
 export const selectQuestionList = memoize((state: RootState) =>
   Object.values(state.data.questionMap),
 );
+export const selectTodoList = memoize((state: RootState) => Object.values(state.data.todoMap));
 export const selectDataLists = memoize((state: RootState) => ({
   notificationList: selectNotificationList(state),
   fileList: selectFileList(state),
   homeworkList: selectHomeworkList(state),
   discussionList: selectDiscussionList(state),
   questionList: selectQuestionList(state),
+  todoList: selectTodoList(state),
 }));
 
 export const selectContentIgnore = (state: RootState) => state.data.contentIgnore;
 
-export const selectUnreadMap = memoize((state: RootState) => {
-  const { notificationList, fileList, homeworkList, discussionList, questionList } =
-    selectDataLists(state);
-  const contentIgnore = selectContentIgnore(state);
-
-  const count = (type: ContentType, list: ContentInfo[]) =>
-    list.reduce(
-      (cnt, c) =>
-        cnt +
-        Number(
-          !c.ignored &&
-            contentIgnore[c.courseId]?.[type] === false &&
-            (!c.hasRead || // all unread content
-              // unfinished homework before deadline
-              (c.type === ContentType.HOMEWORK &&
-                !c.submitted &&
-                c?.deadline?.getTime() > Date.now())),
-        ),
-      0,
-    );
+// nothing is counted before logging in
+export const selectUnreadMap = memoize((state: RootState): UnreadMap & { ignored: number } => ({
+  ...(state.helper.loggedIn ? countUnread(state.data) : EMPTY_UNREAD_MAP),
+  ignored: 0,
+}));
 
-  return state.helper.loggedIn
-    ? {
-        notification: count(ContentType.NOTIFICATION, notificationList),
-        file: count(ContentType.FILE, fileList),
-        homework: count(ContentType.HOMEWORK, homeworkList),
-        discussion: count(ContentType.DISCUSSION, discussionList),
-        question: count(ContentType.QUESTION, questionList),
-        ignored: 0,
-      }
-    : {};
-});
+export const selectViewUnreadMap = memoize(
+  (state: RootState): Record<string, number> =>
+    state.helper.loggedIn ? countViewUnread(state.data, state.data.customViews) : {},
+);
 
 export const selectSemesters = memoize((state: RootState) => {
   const { semesters, fetchedSemester } = state.data;
@@ -71,8 +53,30 @@ export const selectSemesters = memoize((state: RootState) => {
   return semesters;
 });
 
+export const selectSearchQuery = memoize((state: RootState) =>
+  parseQuery(state.ui.searchQuery ?? ''),
+);
+
+export const selectTagCounts = memoize((state: RootState) =>
+  countTags(Object.values(selectDataLists(state)).flat()),
+);
+
+export const selectShortcuts = memoize((state: RootState) =>
+  resolveShortcuts(state.data.shortcuts),
+);
+
+export const selectArchivedSemesters = memoize((state: RootState) =>
+  Object.values(state.data.archive)
+    .map((a) => a.semester)
+    .sort((a, b) => b.id.localeCompare(a.id)),
+);
+
 export const selectCardListTitle = memoize((state: RootState): MessageDescriptor[] => {
   if (state.helper.loggedIn) {
+    const { viewId } = state.ui.cardFilter;
+    const view = viewId && state.data.customViews.find((v) => v.id === viewId);
+    if (view) return [{ id: view.name }];
+    if (state.ui.cardFilter.tag !== undefined) return [{ id: `#${state.ui.cardFilter.tag}` }];
     if (state.ui.cardFilter.courseId && state.ui.cardFilter.type !== 'ignored') {
       return [
         UI_NAME_COURSE[state.ui.cardFilter.type ?? 'summary'],
@@ -2,12 +2,18 @@ import {
   type Action,
   configureStore,
   createListenerMiddleware,
+  isAnyOf,
   type TypedStartListening,
 } from '@reduxjs/toolkit';
 import logger from 'redux-logger';
+import { ContentType } from 'thu-learn-lib';
 
-import { STORAGE_KEY_REDUX } from '../constants';
-import data from './reducers/data';
+import { STORE_DEBOUNCE_MS } from '../constants';
+import { notifyChanges } from '../utils/notify';
+import { scheduleReminders } from '../utils/reminder';
+import { updateSearchIndex } from '../utils/search';
+import { storeData } from '../utils/storage';
+import data, { dataSlice, diffContents } from './reducers/data';
 import helper from './reducers/helper';
 import ui from './reducers/ui';
 
@@ -34,8 +40,111 @@ export const startAppListening = listenerMiddleware.startListening as AppStartLi
 startAppListening({
   matcher: (action: Action): action is Action<string> =>
     typeof action.type === 'string' && action.type.startsWith('data/'),
+  effect: async (_action, { getState, cancelActiveListeners, delay }) => {
+    // batch consecutive changes into one write
+    cancelActiveListeners();
+    await delay(STORE_DEBOUNCE_MS);
+    await storeData(getState().data);
+  },
+});
+
+// write pending changes early when the page is hidden or closed, which usually saves them;
+// writes are async and not waited for on unloading, so changes may still be lost in that case
+const flushData = () => {
+  storeData(store.getState().data).catch((e) => console.error('Failed to store data', e));
+};
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'hidden') flushData();
+});
+window.addEventListener('pagehide', flushData);
+
+const {
+  updateSemester,
+  syncSemester,
+  updateCourses,
+  updateNotification,
+  updateFile,
+  updateHomework,
+  updateDiscussion,
+  updateQuestion,
+  toggleIgnoreState,
+  toggleContentIgnore,
+  resetContentIgnore,
+  saveMuteRule,
+  removeMuteRule,
+  removeExpiredMuteRules,
+  toggleReminderEnabled,
+  toggleLateSubmissionReminder,
+  addReminderOffset,
+  removeReminderOffset,
+  loadData,
+  clearAllData,
+  clearFetchedData,
+  setContentNote,
+  saveTodo,
+  removeTodo,
+} = dataSlice.actions;
+
+for (const [type, actionCreator] of [
+  [ContentType.NOTIFICATION, updateNotification],
+  [ContentType.FILE, updateFile],
+  [ContentType.HOMEWORK, updateHomework],
+  [ContentType.DISCUSSION, updateDiscussion],
+  [ContentType.QUESTION, updateQuestion],
+] as const) {
+  startAppListening({
+    actionCreator,
+    effect: (action, { getOriginalState, getState }) => {
+      const { data } = getOriginalState();
+      notifyChanges(data, diffContents(data, type, action.payload), getState().data).catch((e) =>
+        console.error('Failed to show notifications', e),
+      );
+    },
+  });
+}
+
+startAppListening({
+  matcher: isAnyOf(
+    updateHomework,
+    toggleIgnoreState,
+    toggleContentIgnore,
+    resetContentIgnore,
+    saveMuteRule,
+    removeMuteRule,
+    removeExpiredMuteRules,
+    toggleReminderEnabled,
+    toggleLateSubmissionReminder,
+    addReminderOffset,
+    removeReminderOffset,
+    loadData,
+    clearAllData,
+  ),
+  effect: async (_action, { getState, cancelActiveListeners, delay }) => {
+    // only the last one of consecutive changes matters
+    cancelActiveListeners();
+    await delay(1000);
+    await scheduleReminders(getState().data);
+  },
+});
+
+startAppListening({
+  matcher: isAnyOf(
+    updateSemester,
+    syncSemester,
+    updateCourses,
+    updateNotification,
+    updateFile,
+    updateHomework,
+    updateDiscussion,
+    updateQuestion,
+    loadData,
+    clearAllData,
+    clearFetchedData,
+    setContentNote,
+    saveTodo,
+    removeTodo,
+  ),
   effect: (_action, { getState }) => {
-    const { data } = getState();
-    browser.storage.local.set({ [STORAGE_KEY_REDUX]: JSON.stringify(data) });
+    updateSearchIndex(getState().data);
   },
 });
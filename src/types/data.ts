@@ -11,13 +11,18 @@ interface ICourseRef {
   courseId: string;
 }
 
+// contents created by the user, which fetching from Web Learning never touches
+export type LocalContentType = 'todo';
+
 interface ICardStatus {
-  type: ContentType;
+  type: ContentType | LocalContentType;
   id: string;
   date: Date;
   hasRead: boolean;
   starred: boolean;
   ignored: boolean;
+  snoozedUntil?: number; // hidden until then, and unread again afterwards
+  tags?: string[];
 }
 
 type ICardData = ICourseRef & ICardStatus;
@@ -25,8 +30,23 @@ type ICardData = ICourseRef & ICardStatus;
 export interface NotificationInfo extends Notification, ICardData {
   type: ContentType.NOTIFICATION;
 }
+export type HomeworkStatus = 'notStarted' | 'inProgress' | 'done';
+
+export interface HomeworkTask {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+// managed by the user, independent of the submission on Web Learning
+export interface HomeworkProgress {
+  status: HomeworkStatus;
+  tasks: HomeworkTask[];
+}
+
 export interface HomeworkInfo extends Homework, ICardData {
   type: ContentType.HOMEWORK;
+  progress?: HomeworkProgress;
 }
 export interface FileInfo extends File, ICardData {
   type: ContentType.FILE;
@@ -38,11 +58,25 @@ export interface QuestionInfo extends Question, ICardData {
   type: ContentType.QUESTION;
 }
 
-export type ContentInfo =
+export interface TodoInfo extends ICardStatus {
+  type: 'todo';
+  courseId?: string; // not related to any course if not set
+  title: string;
+  deadline: Date; // also as `date`
+  done: boolean;
+  createdAt: Date;
+}
+
+// contents fetched from Web Learning
+export type FetchedContentInfo =
   | NotificationInfo
   | HomeworkInfo
   | FileInfo
   | DiscussionInfo
   | QuestionInfo;
 
+export type ContentInfo = FetchedContentInfo | TodoInfo;
+
 export type SupportedContentType = Exclude<ContentType, ContentType.QUESTIONNAIRE>;
+
+export type CardContentType = SupportedContentType | LocalContentType;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DataState } from '../redux/reducers/data';
+import { BACKUP_VERSION, parseBackup, previewBackup } from './backup';
+
+const backupText = (fields: Record<string, unknown>) =>
+  JSON.stringify({
+    version: BACKUP_VERSION,
+    exportedAt: 0,
+    flags: {},
+    contentIgnore: {},
+    insistSemester: false,
+    ...fields,
+  });
+
+describe('parseBackup', () => {
+  it('keeps valid settings', () => {
+    expect(parseBackup(backupText({ language: 'en', colorMode: 'dark' }))).toMatchObject({
+      language: 'en',
+      colorMode: 'dark',
+    });
+  });
+
+  it('leaves out invalid or missing settings', () => {
+    const backup = parseBackup(backupText({ language: 'fr', colorMode: 42 }));
+    expect(backup).toBeDefined();
+    expect(backup).not.toHaveProperty('language');
+    expect(backup).not.toHaveProperty('colorMode');
+    expect(parseBackup(backupText({}))).not.toHaveProperty('language');
+  });
+
+  it('rejects malformed files and newer versions', () => {
+    expect(parseBackup('{"version": 1')).toBeUndefined();
+    expect(parseBackup('null')).toBeUndefined();
+    expect(parseBackup(backupText({ flags: undefined }))).toBeUndefined();
+    expect(parseBackup(backupText({ version: BACKUP_VERSION + 1 }))).toBeUndefined();
+  });
+
+  it('rejects malformed flags', () => {
+    const flags = { hasRead: true, starred: false, ignored: false };
+    expect(parseBackup(backupText({ flags: null }))).toBeUndefined();
+    expect(parseBackup(backupText({ flags: [] }))).toBeUndefined();
+    expect(parseBackup(backupText({ flags: { homework: null } }))).toBeUndefined();
+    expect(parseBackup(backupText({ flags: { homework: { h1: null } } }))).toBeUndefined();
+    expect(parseBackup(backupText({ flags: { homework: { h1: true } } }))).toBeUndefined();
+    expect(
+      parseBackup(backupText({ flags: { homework: { h1: { ...flags, starred: 'yes' } } } })),
+    ).toBeUndefined();
+    expect(
+      parseBackup(backupText({ flags: { homework: { h1: { hasRead: true } } } })),
+    ).toBeUndefined();
+    expect(parseBackup(backupText({ flags: { homework: { h1: flags } } }))).toBeDefined();
+  });
+
+  it('rejects malformed hidden types', () => {
+    expect(parseBackup(backupText({ contentIgnore: null }))).toBeUndefined();
+    expect(parseBackup(backupText({ contentIgnore: { c1: null } }))).toBeUndefined();
+    expect(parseBackup(backupText({ contentIgnore: { c1: { file: 1 } } }))).toBeUndefined();
+    expect(parseBackup(backupText({ contentIgnore: { c1: { file: true } } }))).toBeDefined();
+  });
+
+  it('rejects a non-boolean semester setting', () => {
+    expect(parseBackup(backupText({ insistSemester: 'true' }))).toBeUndefined();
+    expect(parseBackup(backupText({ insistSemester: undefined }))).toBeUndefined();
+  });
+});
+
+describe('previewBackup', () => {
+  it('keeps flags of contents not fetched yet', () => {
+    const flags = { hasRead: true, starred: true, ignored: false };
+    const backup = parseBackup(backupText({ flags: { homework: { h1: flags } } }))!;
+    const data = {
+      notificationMap: {},
+      fileMap: {},
+      homeworkMap: {},
+      discussionMap: {},
+      questionMap: {},
+    } as unknown as DataState;
+    expect(previewBackup(data, backup)).toEqual({
+      changes: [],
+      conflicts: [],
+      missing: [{ type: 'homework', id: 'h1', flags }],
+    });
+  });
+});
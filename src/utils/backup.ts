@@ -0,0 +1,153 @@
+import type { Language } from 'thu-learn-lib';
+
+import { SUPPORTED_CONTENT_TYPES } from '../constants';
+import type { DataState, IContentIgnore } from '../redux/reducers/data';
+import type { ContentInfo, SupportedContentType } from '../types/data';
+import type { ColorMode } from '../types/ui';
+
+export const BACKUP_VERSION = 1;
+
+export interface ContentFlags {
+  hasRead: boolean;
+  starred: boolean;
+  ignored: boolean;
+}
+
+export type BackupFlags = Record<SupportedContentType, Record<string, ContentFlags>>;
+
+export interface BackupSettings {
+  language: Language;
+  colorMode: ColorMode;
+}
+
+// only user state is backed up, contents are fetched again and credentials are never included,
+// settings are left out of a parsed backup if invalid
+export interface Backup extends Partial<BackupSettings> {
+  version: number;
+  exportedAt: number; // in milliseconds
+  flags: BackupFlags; // only contents with any flag set
+  contentIgnore: IContentIgnore;
+  insistSemester: boolean;
+}
+
+export interface FlagsChange {
+  type: SupportedContentType;
+  id: string;
+  flags: ContentFlags;
+}
+
+export interface FlagsConflict extends FlagsChange {
+  title: string;
+  current: ContentFlags;
+}
+
+export interface BackupPreview {
+  changes: FlagsChange[]; // contents not touched locally, applied anyway
+  conflicts: FlagsConflict[]; // contents with different flags set locally
+  missing: FlagsChange[]; // contents not fetched yet, applied once fetched
+}
+
+const LANGUAGES: string[] = ['zh', 'en'] satisfies `${Language}`[];
+const COLOR_MODES: string[] = ['light', 'dark', 'system'] satisfies ColorMode[];
+
+const FLAG_KEYS = ['hasRead', 'starred', 'ignored'] as const;
+
+const pickFlags = (c: ContentFlags): ContentFlags => ({
+  hasRead: c.hasRead,
+  starred: c.starred,
+  ignored: c.ignored,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBooleanMap = (value: unknown, keys?: readonly string[]) =>
+  isObject(value) && (keys ?? Object.keys(value)).every((key) => typeof value[key] === 'boolean');
+
+// every type present maps ids to flags with all fields set
+const isValidFlags = (flags: unknown) =>
+  isObject(flags) &&
+  SUPPORTED_CONTENT_TYPES.every(
+    (type) =>
+      flags[type] === undefined ||
+      (isObject(flags[type]) &&
+        Object.values(flags[type]).every((f) => isBooleanMap(f, FLAG_KEYS))),
+  );
+
+const isDefault = (f: ContentFlags) => FLAG_KEYS.every((key) => !f[key]);
+const isSame = (a: ContentFlags, b: ContentFlags) => FLAG_KEYS.every((key) => a[key] === b[key]);
+
+export function createBackup(data: DataState, settings: BackupSettings): Backup {
+  const flags = Object.fromEntries(
+    SUPPORTED_CONTENT_TYPES.map((type) => {
+      const contents: ContentInfo[] = Object.values(data[`${type}Map`]);
+      return [
+        type,
+        Object.fromEntries(contents.filter((c) => !isDefault(c)).map((c) => [c.id, pickFlags(c)])),
+      ];
+    }),
+  ) as BackupFlags;
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    flags,
+    contentIgnore: data.contentIgnore,
+    insistSemester: data.insistSemester,
+    ...settings,
+  };
+}
+
+/** Parse a backup file, `undefined` if it is malformed or from a newer version. */
+export function parseBackup(text: string): Backup | undefined {
+  let backup: Partial<Backup>;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (
+    !isObject(backup) ||
+    typeof backup.version !== 'number' ||
+    backup.version > BACKUP_VERSION ||
+    !isValidFlags(backup.flags) ||
+    !isObject(backup.contentIgnore) ||
+    !Object.values(backup.contentIgnore).every((types) => isBooleanMap(types)) ||
+    typeof backup.insistSemester !== 'boolean'
+  ) {
+    return undefined;
+  }
+  const { language, colorMode, ...rest } = backup;
+  return {
+    ...rest,
+    ...(LANGUAGES.includes(language as string) && { language }),
+    ...(COLOR_MODES.includes(colorMode as string) && { colorMode }),
+    flags: Object.fromEntries(
+      SUPPORTED_CONTENT_TYPES.map((type) => [type, backup.flags?.[type] ?? {}]),
+    ) as BackupFlags,
+  } as Backup;
+}
+
+/** Compare the flags in a backup with the current ones. */
+export function previewBackup(data: DataState, backup: Backup): BackupPreview {
+  const preview: BackupPreview = { changes: [], conflicts: [], missing: [] };
+  for (const type of SUPPORTED_CONTENT_TYPES) {
+    const contents: Record<string, ContentInfo> = data[`${type}Map`];
+    for (const [id, flags] of Object.entries(backup.flags[type])) {
+      const content = contents[id];
+      if (!content) {
+        if (!isDefault(flags)) preview.missing.push({ type, id, flags: pickFlags(flags) });
+      } else if (isDefault(content)) {
+        if (!isDefault(flags)) preview.changes.push({ type, id, flags: pickFlags(flags) });
+      } else if (!isSame(content, flags)) {
+        preview.conflicts.push({
+          type,
+          id,
+          flags: pickFlags(flags),
+          title: content.title,
+          current: pickFlags(content),
+        });
+      }
+    }
+  }
+  return preview;
+}
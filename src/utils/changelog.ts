@@ -0,0 +1,63 @@
+import { ContentType, type ContentTypeMap } from 'thu-learn-lib';
+
+import type { ChangeLogEntry, ChangeValue } from '../redux/reducers/data';
+import type { FetchedContentInfo, SupportedContentType } from '../types/data';
+
+// how a field is compared, stored and displayed
+export type FieldKind = 'text' | 'number' | 'date' | 'html' | 'gradeLevel';
+
+/** Fields whose changes are recorded in the change log, per content type. */
+export const TRACKED_FIELDS: { [T in SupportedContentType]: Record<string, FieldKind> } = {
+  [ContentType.NOTIFICATION]: { title: 'text', content: 'html', expireTime: 'date' },
+  [ContentType.FILE]: { title: 'text', description: 'text', size: 'text' },
+  [ContentType.HOMEWORK]: {
+    title: 'text',
+    deadline: 'date',
+    lateSubmissionDeadline: 'date',
+    grade: 'number',
+    gradeLevel: 'gradeLevel',
+    gradeContent: 'text',
+  },
+  [ContentType.DISCUSSION]: { title: 'text', replyCount: 'number' },
+  [ContentType.QUESTION]: { title: 'text', replyCount: 'number' },
+};
+
+// field name of the entry for a newly published content
+export const CREATED_FIELD = 'created';
+
+const toValue = (kind: FieldKind, value: unknown): ChangeValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.getTime();
+  if (kind === 'number') return Number(value);
+  return String(value);
+};
+
+/** Compare the tracked fields of a content before and after fetching. */
+export function diffFields(
+  type: SupportedContentType,
+  oldContent: FetchedContentInfo,
+  newContent: ContentTypeMap[SupportedContentType],
+  detectedAt: number,
+): ChangeLogEntry[] {
+  const entries: ChangeLogEntry[] = [];
+  const before = oldContent as unknown as Record<string, unknown>;
+  const after = newContent as unknown as Record<string, unknown>;
+  for (const [field, kind] of Object.entries(TRACKED_FIELDS[type])) {
+    const oldValue = toValue(kind, before[field]);
+    const newValue = toValue(kind, after[field]);
+    if (oldValue === newValue) continue;
+    entries.push({
+      id: `${type}-${newContent.id}-${field}-${detectedAt}`,
+      type,
+      contentId: newContent.id,
+      courseId: oldContent.courseId,
+      title: newContent.title,
+      field,
+      // html could be large, only record that it is changed
+      oldValue: kind === 'html' ? null : oldValue,
+      newValue: kind === 'html' ? null : newValue,
+      detectedAt,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,105 @@
+import {
+  ApiError,
+  ContentType,
+  type ContentTypeMap,
+  type CourseContent,
+  CourseType,
+  type Learn2018Helper,
+} from 'thu-learn-lib';
+
+import { FETCH_MAX_RETRIES, FETCH_RETRY_DELAY_MS, SUPPORTED_CONTENT_TYPES } from '../constants';
+import type { SyncRecord, SyncReport } from '../redux/reducers/data';
+import type { SupportedContentType } from '../types/data';
+import { getFailReason } from './format';
+import type { RefreshTask } from './planner';
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// `getAllContents` wraps errors of single courses, unwrap it to get the real reason
+const unwrapError = (e: unknown) =>
+  e instanceof ApiError && e.extra && typeof e.extra === 'object' && 'reason' in e.extra
+    ? e.extra.reason
+    : e;
+
+/** Fetch contents of one course, retrying with exponential backoff on failure. */
+async function fetchCourse<T extends SupportedContentType>(
+  helper: Learn2018Helper,
+  type: T,
+  courseId: string,
+): Promise<{ contents?: ContentTypeMap[T][]; record: SyncRecord }> {
+  const start = Date.now();
+  for (let attempts = 1; ; attempts++) {
+    try {
+      const res = await helper.getAllContents([courseId], type, CourseType.STUDENT);
+      return {
+        contents: res[courseId],
+        record: { success: true, duration: Date.now() - start, attempts },
+      };
+    } catch (e) {
+      if (attempts > FETCH_MAX_RETRIES) {
+        console.warn(`Failed to fetch ${type} of course ${courseId}`, e);
+        return {
+          record: {
+            success: false,
+            duration: Date.now() - start,
+            attempts,
+            reason: getFailReason(unwrapError(e)),
+          },
+        };
+      }
+      await delay(FETCH_RETRY_DELAY_MS * 2 ** (attempts - 1));
+    }
+  }
+}
+
+const emptyRecords = (): SyncReport['records'] => ({
+  [ContentType.NOTIFICATION]: {},
+  [ContentType.FILE]: {},
+  [ContentType.HOMEWORK]: {},
+  [ContentType.DISCUSSION]: {},
+  [ContentType.QUESTION]: {},
+});
+
+/**
+ * Run the refresh tasks in parallel and build a sync report.
+ * `merge` is called once per task with contents of all succeeded courses.
+ */
+export async function syncContents(
+  helper: Learn2018Helper,
+  tasks: RefreshTask[],
+  merge: <T extends SupportedContentType>(type: T, contents: CourseContent<T>) => unknown,
+): Promise<SyncReport> {
+  const startedAt = Date.now();
+  const records = emptyRecords();
+
+  await Promise.all(
+    tasks.map(async ({ type, courseIds }) => {
+      const contents: CourseContent<typeof type> = {};
+      await Promise.all(
+        courseIds.map(async (cid) => {
+          const res = await fetchCourse(helper, type, cid);
+          records[type][cid] = res.record;
+          if (res.contents) contents[cid] = res.contents;
+        }),
+      );
+      await merge(type, contents);
+    }),
+  );
+
+  return { startedAt, finishedAt: Date.now(), records };
+}
+
+/** Overwrite records in `base` with the newer ones, used when retrying part of a sync. */
+export function mergeReports(base: SyncReport, report: SyncReport): SyncReport {
+  const records = emptyRecords();
+  for (const type of SUPPORTED_CONTENT_TYPES) {
+    records[type] = { ...base.records[type], ...report.records[type] };
+  }
+  return { startedAt: base.startedAt, finishedAt: report.finishedAt, records };
+}
+
+export const countFailures = (report: SyncReport) =>
+  SUPPORTED_CONTENT_TYPES.reduce(
+    (total, type) => total + Object.values(report.records[type]).filter((r) => !r.success).length,
+    0,
+  );
@@ -88,6 +88,13 @@ export function formatDateTime(date?: Date): string {
   return `${toDateString(date, true)} ${toTimeString(date)}`;
 }
 
+/** Value of `<input type="datetime-local">` for a time, in local time. */
+export function toDateTimeInputValue(time: number): string {
+  const date = new Date(time);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
 const FailReasons = {
   [FailReason.NO_CREDENTIAL]: msg`未提供用户名或密码`,
   [FailReason.ERROR_FETCH_FROM_ID]: msg`无法从 id.tsinghua.edu.cn 获取票据`,
@@ -104,13 +111,20 @@ const FailReasons = {
   UNKNOWN: msg`未知错误`,
 };
 
+export type FailReasonKey = keyof typeof FailReasons;
+
+/** Get the reason of an error, which is serializable and can be formatted later. */
+export function getFailReason(e: unknown): FailReasonKey {
+  return e instanceof Error && e.message in FailReasons ? (e.message as FailReasonKey) : 'UNKNOWN';
+}
+
+export function formatFailReason(reason: FailReasonKey): string {
+  return i18n._(FailReasons[reason]);
+}
+
 export function formatError(e: unknown): string {
   console.error(e);
-  return i18n._(
-    e instanceof Error && e.message in FailReasons
-      ? FailReasons[e.message as keyof typeof FailReasons]
-      : FailReasons.UNKNOWN,
-  );
+  return formatFailReason(getFailReason(e));
 }
 
 const HomeworkGradeLevelNames = {
@@ -0,0 +1,105 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+import { ContentType, type CourseInfo } from 'thu-learn-lib';
+
+import { CARD_MAIN_FUNC } from '../constants/ui';
+import type { CardContentType, ContentInfo } from '../types/data';
+
+export type CardGrouping = 'none' | 'course' | 'date' | 'type';
+
+export const CARD_GROUPINGS: Record<CardGrouping, MessageDescriptor> = {
+  none: msg`不分组`,
+  course: msg`按课程`,
+  date: msg`按日期`,
+  type: msg`按类型`,
+};
+
+export interface CardGroup {
+  key: string;
+  name: MessageDescriptor;
+  contents: ContentInfo[];
+}
+
+// group of to-dos not related to any course
+const NO_COURSE = msg`无关联课程`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// in the order shown
+const DATE_BUCKETS = {
+  overdue: msg`已逾期`,
+  today: msg`今天`,
+  week: msg`一周内`,
+  later: msg`更晚`,
+  earlier: msg`更早`,
+};
+
+type DateBucket = keyof typeof DATE_BUCKETS;
+
+function dateBucket(c: ContentInfo, now: number): DateBucket {
+  const time = c.date.getTime();
+  if (c.type === ContentType.HOMEWORK && time < now && !c.submitted) return 'overdue';
+  if (c.type === 'todo' && time < now && !c.done) return 'overdue';
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const start = today.getTime();
+  if (time >= start && time < start + DAY_MS) return 'today';
+  if (time >= start + DAY_MS * 8) return 'later';
+  if (time < start - DAY_MS * 7) return 'earlier';
+  return 'week';
+}
+
+/** Split sorted contents into groups, the order of contents in each group is kept. */
+export function groupContents(
+  contents: ContentInfo[],
+  grouping: CardGrouping,
+  courses: Record<string, CourseInfo>,
+  now = Date.now(),
+): CardGroup[] {
+  if (grouping === 'none') return [{ key: 'all', name: CARD_GROUPINGS.none, contents }];
+
+  const groups = new Map<string, ContentInfo[]>();
+  for (const c of contents) {
+    const key =
+      grouping === 'course'
+        ? (c.courseId ?? '')
+        : grouping === 'type'
+          ? c.type
+          : dateBucket(c, now);
+    const group = groups.get(key);
+    if (group) group.push(c);
+    else groups.set(key, [c]);
+  }
+
+  let keys: string[];
+  switch (grouping) {
+    case 'course':
+      // contents without a course go last
+      keys = Array.from(groups.keys()).sort(
+        (a, b) =>
+          Number(a === '') - Number(b === '') ||
+          (courses[a]?.name ?? '').localeCompare(courses[b]?.name ?? '') ||
+          a.localeCompare(b),
+      );
+      break;
+    case 'type':
+      keys = Object.keys(CARD_MAIN_FUNC).filter((type) => groups.has(type));
+      break;
+    case 'date':
+      keys = Object.keys(DATE_BUCKETS).filter((bucket) => groups.has(bucket));
+      break;
+  }
+
+  return keys.map((key) => ({
+    key,
+    name:
+      grouping === 'course'
+        ? key
+          ? { id: `course-${key}` }
+          : NO_COURSE
+        : grouping === 'type'
+          ? CARD_MAIN_FUNC[key as CardContentType].name
+          : DATE_BUCKETS[key as DateBucket],
+    contents: groups.get(key) ?? [],
+  }));
+}
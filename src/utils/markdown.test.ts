@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('escapes html in text, code and links', () => {
+    expect(renderMarkdown('<img src=x onerror="alert(1)"> & more')).toBe(
+      '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; more</p>',
+    );
+    expect(renderMarkdown('`<b>`')).toBe('<p><code>&lt;b&gt;</code></p>');
+    expect(renderMarkdown('```\n</code><script>\n```')).toBe(
+      '<pre><code>&lt;/code&gt;&lt;script&gt;</code></pre>',
+    );
+    expect(renderMarkdown('[a](https://x.com/"onclick="alert(1))')).toBe(
+      '<p><a href="https://x.com/&quot;onclick=&quot;alert(1" target="_blank" rel="noreferrer">a</a>)</p>',
+    );
+  });
+
+  it('keeps only http(s) links', () => {
+    expect(renderMarkdown('[a](javascript:alert(1))')).toBe('<p>[a](javascript:alert(1))</p>');
+    expect(renderMarkdown('[a](data:text/html,x)')).toBe('<p>[a](data:text/html,x)</p>');
+    expect(renderMarkdown('[a](JavaScript://%0aalert(1))')).toBe(
+      '<p>[a](JavaScript://%0aalert(1))</p>',
+    );
+    expect(renderMarkdown('[a](http://x.com)')).toBe(
+      '<p><a href="http://x.com" target="_blank" rel="noreferrer">a</a></p>',
+    );
+  });
+
+  it('renders nested emphasis', () => {
+    expect(renderMarkdown('**bold *and em* ~~gone~~**')).toBe(
+      '<p><strong>bold <em>and em</em> <del>gone</del></strong></p>',
+    );
+    expect(renderMarkdown('*em `*code*`*')).toBe('<p><em>em <code>*code*</code></em></p>');
+    expect(renderMarkdown('**[`a` *b*](https://x.com/**c**)**')).toBe(
+      '<p><strong><a href="https://x.com/**c**" target="_blank" rel="noreferrer"><code>a</code> <em>b</em></a></strong></p>',
+    );
+  });
+
+  it('renders nested lists', () => {
+    expect(renderMarkdown('- a\n  1. b\n  2. c\n    - d\n- e\n\n1. f')).toBe(
+      '<ul><li>a<ol><li>b</li><li>c<ul><li>d</li></ul></li></ol></li><li>e</li></ul><ol><li>f</li></ol>',
+    );
+  });
+
+  it('renders blocks', () => {
+    expect(renderMarkdown('# Title\nline 1\nline 2\n\n> quote\n> - item')).toBe(
+      '<h1>Title</h1><p>line 1<br />line 2</p><blockquote><p>quote</p><ul><li>item</li></ul></blockquote>',
+    );
+  });
+});
@@ -0,0 +1,120 @@
+// a small subset of markdown for personal notes: headings, paragraphs, lists, block quotes,
+// code blocks, and inline code, emphasis and links; everything else is shown as text
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderEmphasis = (html: string) =>
+  html
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+function renderInline(text: string): string {
+  // code spans and links are taken out first, so that nothing inside them (or their urls) is
+  // formatted
+  const parts: string[] = [];
+  const takeOut = (html: string) => {
+    parts.push(html);
+    return `\u0000${parts.length - 1}\u0000`;
+  };
+  const html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_m, code: string) => takeOut(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_m, label: string, url: string) =>
+      takeOut(`<a href="${url}" target="_blank" rel="noreferrer">${renderEmphasis(label)}</a>`),
+    );
+  // links may contain code spans in turn
+  const restore = (html: string): string =>
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: placeholders of code spans and links
+    html.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => restore(parts[Number(i)]));
+  return restore(renderEmphasis(html));
+}
+
+// indent, number if ordered, text
+const LIST_ITEM = /^(\s*)(?:[-*+]|(\d+)\.)\s+(.*)$/;
+
+// render the list starting at `start`, items indented further are nested in the previous one
+function renderList(lines: string[], start: number): [html: string, end: number] {
+  const [, indent, number] = LIST_ITEM.exec(lines[start]) ?? [];
+  const ordered = number !== undefined;
+  const items: string[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const m = LIST_ITEM.exec(lines[i]);
+    if (!m || m[1].length < indent.length) break;
+    if (m[1].length > indent.length) {
+      const [nested, end] = renderList(lines, i);
+      items[items.length - 1] += nested;
+      i = end;
+      continue;
+    }
+    if ((m[2] !== undefined) !== ordered) break;
+    items.push(renderInline(m[3]));
+    i++;
+  }
+  const tag = ordered ? 'ol' : 'ul';
+  return [`<${tag}>${items.map((item) => `<li>${item}</li>`).join('')}</${tag}>`, i];
+}
+
+/** Render markdown to HTML, all text is escaped and only http(s) links are kept. */
+export function renderMarkdown(source: string): string {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith('```'); i++) code.push(lines[i]);
+      i++; // closing fence
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].startsWith('>'); i++) {
+        quote.push(lines[i].replace(/^>\s?/, ''));
+      }
+      blocks.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [html, end] = renderList(lines, i);
+      blocks.push(html);
+      i = end;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (
+      ;
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !/^(#{1,6}\s|>|```)/.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i]);
+      i++
+    ) {
+      paragraph.push(renderInline(lines[i]));
+    }
+    blocks.push(`<p>${paragraph.join('<br />')}</p>`);
+  }
+
+  return blocks.join('');
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing/fake-browser';
+
+import { SCHEMA_VERSION, STORAGE_KEY_REDUX, STORAGE_KEY_REDUX_LEGACY } from '../constants';
+import type { HomeworkInfo } from '../types/data';
+import schema0 from './__fixtures__/schema-0.json';
+import schema1 from './__fixtures__/schema-1.json';
+import { loadVersionedData, migrateData } from './migration';
+
+// only data in `browser.storage.local` is read in these tests
+vi.mock('./storage', () => ({
+  loadSchemaVersion: async () => undefined,
+  loadStoredData: async () => undefined,
+}));
+
+// as stored by redux-persist with jsan serialization (4.5 <= version < 4.6)
+const storeSchema0 = () =>
+  fakeBrowser.storage.local.set({
+    [STORAGE_KEY_REDUX_LEGACY]: JSON.stringify({ data: JSON.stringify(JSON.stringify(schema0)) }),
+  });
+
+// as stored in JSON (4.6 <= version <= 4.7)
+const storeSchema1 = () =>
+  fakeBrowser.storage.local.set({ [STORAGE_KEY_REDUX]: JSON.stringify(schema1) });
+
+const homework = (data: { homeworkMap?: Record<string, HomeworkInfo> }, id: string) =>
+  data.homeworkMap?.[id] as HomeworkInfo;
+
+beforeEach(() => {
+  fakeBrowser.reset();
+});
+
+describe('loadVersionedData', () => {
+  it('reads data of schema 0 with dates revived', async () => {
+    await storeSchema0();
+    const stored = await loadVersionedData('4.5.3');
+    expect(stored?.version).toBe(0);
+    expect(stored?.outdated).toBeUndefined();
+    expect(stored?.data.lastUpdateTime).toEqual(new Date(1741582800000));
+  });
+
+  it('reads data of schema 1 with dates revived', async () => {
+    await storeSchema1();
+    const stored = await loadVersionedData('4.7.0');
+    expect(stored?.version).toBe(1);
+    expect(homework(stored!.data, 'h1').deadline).toEqual(new Date('2025-03-17T04:00:00.000Z'));
+  });
+
+  it('keeps only settings of version < 4.5', async () => {
+    await storeSchema0();
+    const stored = await loadVersionedData('4.4.0');
+    expect(stored).toEqual({
+      version: 0,
+      data: { insistSemester: true, contentIgnore: schema0.contentIgnore },
+      outdated: true,
+    });
+  });
+
+  it('reports version < 4.5 as outdated even without readable data', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await fakeBrowser.storage.local.set({ [STORAGE_KEY_REDUX_LEGACY]: 'not json' });
+    expect(await loadVersionedData('4.4.0')).toEqual({ version: 0, data: {}, outdated: true });
+  });
+
+  it('returns nothing if no data is stored', async () => {
+    expect(await loadVersionedData('4.7.0')).toBeUndefined();
+  });
+});
+
+describe('migrateData', () => {
+  it('unwraps maps of redux-persist in step 1', async () => {
+    await storeSchema0();
+    const { data, applied, failed } = migrateData((await loadVersionedData('4.5.3'))!);
+    expect(failed).toBeUndefined();
+    expect(applied).toHaveLength(SCHEMA_VERSION);
+    expect(Object.keys(data.courseMap ?? {})).toEqual(['c1']);
+    expect(data.fileMap).toEqual({});
+    expect(data.notificationMap?.n1).toMatchObject({
+      title: '期中考试教室变更',
+      publishTime: new Date(1741579200000),
+      starred: true,
+    });
+    expect(data.notificationMap?.n1).not.toHaveProperty('expireTime');
+    expect(homework(data, 'h1').lateSubmissionDeadline).toEqual(new Date(1742788800000));
+    expect(data.contentIgnore).toEqual(schema0.contentIgnore);
+  });
+
+  it('revives late submission deadlines in step 2', async () => {
+    await storeSchema1();
+    const { data, applied, failed } = migrateData((await loadVersionedData('4.7.0'))!);
+    expect(failed).toBeUndefined();
+    expect(applied).toHaveLength(SCHEMA_VERSION - 1);
+    expect(homework(data, 'h1').lateSubmissionDeadline).toEqual(
+      new Date('2025-03-24T04:00:00.000Z'),
+    );
+    expect(homework(data, 'h2').lateSubmissionDeadline).toBeUndefined();
+    expect(homework(data, 'h2').starred).toBe(true);
+  });
+
+  it('leaves data without homework untouched in step 2', () => {
+    const data = { insistSemester: true };
+    expect(migrateData({ version: 1, data }).data).toEqual(data);
+  });
+
+  it('applies nothing to data of the current schema', () => {
+    const data = { insistSemester: true };
+    expect(migrateData({ version: SCHEMA_VERSION, data })).toEqual({ data, applied: [] });
+  });
+
+  it('keeps the original data if a step fails', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const data = { homeworkMap: { h1: null } } as unknown as Parameters<
+      typeof migrateData
+    >[0]['data'];
+    const result = migrateData({ version: 0, data });
+    expect(result.data).toBe(data);
+    expect(result.applied).toEqual([]);
+    expect(result.failed).toBeDefined();
+  });
+});
@@ -0,0 +1,168 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+import { compare as compareVersion } from 'compare-versions';
+
+import {
+  SCHEMA_VERSION,
+  STORAGE_KEY_REDUX,
+  STORAGE_KEY_REDUX_LEGACY,
+  SUPPORTED_CONTENT_TYPES,
+} from '../constants';
+import type { DataState } from '../redux/reducers/data';
+import type { HomeworkInfo } from '../types/data';
+import { loadSchemaVersion, loadStoredData } from './storage';
+
+type StoredData = Partial<DataState>;
+
+interface Migration {
+  description: MessageDescriptor;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// keyed by the schema version the data is migrated to, every step should be a pure function
+// 0: redux-persist in jsan format (4.5 <= version < 4.6)
+// 1: JSON string in `browser.storage.local` (4.6 <= version <= 4.7)
+// 2: IndexedDB
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    description: msg`移除 redux-persist 的数据格式`,
+    migrate: (data) => {
+      // content maps were wrapped as `{ data: map }`
+      const result: Record<string, unknown> = { ...data };
+      for (const type of SUPPORTED_CONTENT_TYPES) {
+        const wrapped = result[`${type}Map`] as { data?: unknown } | undefined;
+        if (wrapped && 'data' in wrapped) result[`${type}Map`] = wrapped.data;
+      }
+      const courseMap = result.courseMap as { data?: unknown } | undefined;
+      if (courseMap && 'data' in courseMap) result.courseMap = courseMap.data;
+      return result as StoredData;
+    },
+  },
+  2: {
+    description: msg`修复补交截止时间的日期格式`,
+    migrate: (data) => {
+      // `lateSubmissionDeadline` was not revived as `Date` when loading from JSON
+      if (!data.homeworkMap) return data;
+      const homeworkMap = Object.fromEntries(
+        Object.entries(data.homeworkMap).map(([id, hw]): [string, HomeworkInfo] => {
+          const deadline: unknown = hw.lateSubmissionDeadline;
+          return [
+            id,
+            typeof deadline === 'string'
+              ? { ...hw, lateSubmissionDeadline: new Date(deadline) }
+              : hw,
+          ];
+        }),
+      );
+      return { ...data, homeworkMap };
+    },
+  },
+};
+
+export interface VersionedData {
+  version: number;
+  data: StoredData;
+  outdated?: boolean; // from version < 4.5, of which only settings are kept
+}
+
+// fields dropped from data of version < 4.5, to be fetched again
+const FETCHED_FIELDS = [
+  'courseMap',
+  'notificationMap',
+  'fileMap',
+  'homeworkMap',
+  'discussionMap',
+  'questionMap',
+  'lastUpdateTime',
+  'fetchTimestamps',
+  'syncReport',
+  'changeLog',
+  'archive',
+] as const;
+
+const reviveJSON = (key: string, value: unknown) => {
+  if (key === 'date' || key === 'deadline' || key.endsWith('Date') || key.endsWith('Time'))
+    return new Date(value as string);
+  return value;
+};
+
+// from https://github.com/kolodny/jsan/blob/7216568a9a7969dfa81b834236595e862fdde984/lib/utils.js#L23C48-L23C48
+const reviveJsan = (_key: string, value: unknown) => {
+  if (value && typeof value === 'object' && '$jsan' in value) {
+    const jsan = value.$jsan as string;
+    const type = jsan[0];
+    const rest = jsan.slice(1);
+    if (type === 'd') return new Date(+rest);
+    if (type === 'u') return undefined;
+    // other types is not needed
+  }
+  return value;
+};
+
+const parseJsan = (jsan: string): StoredData =>
+  JSON.parse(JSON.parse(JSON.parse(jsan).data), reviveJsan);
+
+const withoutFetched = (data: StoredData) => {
+  const result = { ...data };
+  for (const key of FETCHED_FIELDS) delete result[key];
+  return result;
+};
+
+/**
+ * Read stored data in any known format along with its schema version.
+ * `appVersion` is the version of Learn Helper that stored the data.
+ */
+export async function loadVersionedData(appVersion: string): Promise<VersionedData | undefined> {
+  const version = await loadSchemaVersion();
+  if (version !== undefined) {
+    return { version, data: (await loadStoredData()) ?? {} };
+  }
+
+  const { [STORAGE_KEY_REDUX]: json, [STORAGE_KEY_REDUX_LEGACY]: jsan } =
+    await browser.storage.local.get([STORAGE_KEY_REDUX, STORAGE_KEY_REDUX_LEGACY]);
+  if (json !== undefined) {
+    return { version: 1, data: JSON.parse(json, reviveJSON) };
+  }
+  // contents of version < 4.5 are not supported, only settings are kept
+  if (compareVersion(appVersion, '4.5.0', '<')) {
+    let data: StoredData = {};
+    try {
+      if (jsan !== undefined) data = withoutFetched(parseJsan(jsan));
+    } catch (e) {
+      console.error('Failed to read settings of version < 4.5', e);
+    }
+    return { version: 0, data, outdated: true };
+  }
+  if (jsan !== undefined) {
+    return { version: 0, data: parseJsan(jsan) };
+  }
+  return undefined;
+}
+
+export interface MigrationResult {
+  data: StoredData;
+  applied: MessageDescriptor[];
+  failed?: MessageDescriptor; // the data is left unchanged if any step fails
+}
+
+/** Migrate the data to `SCHEMA_VERSION` step by step. */
+export function migrateData({ version, data }: VersionedData): MigrationResult {
+  let result = data;
+  const applied: MessageDescriptor[] = [];
+  for (let v = version + 1; v <= SCHEMA_VERSION; v++) {
+    const { description, migrate } = MIGRATIONS[v];
+    try {
+      result = migrate(result);
+    } catch (e) {
+      console.error(`Migration to schema version ${v} failed`, e);
+      return { data, applied: [], failed: description };
+    }
+    applied.push(description);
+  }
+  return { data: result, applied };
+}
+
+/** Remove data in formats before IndexedDB, after it has been migrated. */
+export async function removeLegacyData(): Promise<void> {
+  await browser.storage.local.remove([STORAGE_KEY_REDUX, STORAGE_KEY_REDUX_LEGACY]);
+}
@@ -0,0 +1,48 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { FetchedContentInfo, SupportedContentType } from '../types/data';
+import { publisherOf } from './query';
+
+/** A rule hiding contents matching all its conditions from the summary, unread counts and notifications. */
+export interface MuteRule {
+  id: string;
+  // conditions, those empty or unset are not checked
+  courseIds: string[];
+  types: SupportedContentType[];
+  publisher?: string; // case-insensitive substring
+  keyword?: string; // of titles, case-insensitive substring
+  fileCategory?: string; // title of the category, only files match if set
+  until?: number; // in milliseconds, muted forever if unset
+}
+
+const contains = (text: string | undefined, part: string) =>
+  (text ?? '').toLowerCase().includes(part.toLowerCase());
+
+/** Whether the rule has any condition, as a rule without one would mute everything. */
+export const hasConditions = (rule: MuteRule) =>
+  rule.courseIds.length !== 0 ||
+  rule.types.length !== 0 ||
+  !!rule.publisher ||
+  !!rule.keyword ||
+  !!rule.fileCategory;
+
+export const isMuteActive = (rule: MuteRule, now = Date.now()) =>
+  rule.until === undefined || rule.until > now;
+
+export function matchMute(rule: MuteRule, c: FetchedContentInfo): boolean {
+  if (rule.courseIds.length !== 0 && !rule.courseIds.includes(c.courseId)) return false;
+  if (rule.types.length !== 0 && !rule.types.includes(c.type)) return false;
+  if (rule.publisher && !contains(publisherOf(c), rule.publisher)) return false;
+  if (rule.keyword && !contains(c.title, rule.keyword)) return false;
+  if (
+    rule.fileCategory &&
+    (c.type !== ContentType.FILE || !contains(c.category?.title, rule.fileCategory))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether the content is hidden by any active mute rule. */
+export const isMuted = (c: FetchedContentInfo, rules: MuteRule[], now = Date.now()) =>
+  rules.some((rule) => isMuteActive(rule, now) && matchMute(rule, c));
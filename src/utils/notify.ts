@@ -0,0 +1,107 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { ContentChange, DataState } from '../redux/reducers/data';
+import type { CardContentType, SupportedContentType } from '../types/data';
+import { isMuted } from './mute';
+
+// notification id: `${NOTIFY_ID_PREFIX}${path in app}@${unique key}`
+const NOTIFY_ID_PREFIX = 'learn-helper:';
+
+const NEW_CONTENT_MESSAGES = {
+  [ContentType.NOTIFICATION]: 'notifyNewNotification',
+  [ContentType.FILE]: 'notifyNewFile',
+  [ContentType.HOMEWORK]: 'notifyNewHomework',
+  [ContentType.DISCUSSION]: 'notifyNewDiscussion',
+  [ContentType.QUESTION]: 'notifyNewQuestion',
+} as const;
+
+const describeChange = (change: ContentChange) =>
+  browser.i18n.getMessage(
+    change.kind === 'graded' ? 'notifyGradedHomework' : NEW_CONTENT_MESSAGES[change.type],
+  );
+
+export const notificationId = (path: string, key: string) => `${NOTIFY_ID_PREFIX}${path}@${key}`;
+
+// ignored on merging, or muted by the user
+const isHidden = (merged: DataState, change: ContentChange) => {
+  const c = merged[`${change.type}Map`][change.id];
+  return !!c && (c.ignored || isMuted(c, merged.muteRules));
+};
+
+// contents of a course are all new when it is fetched for the first time, e.g. when joined later
+const fetchedBefore = (data: DataState, type: SupportedContentType, courseId: string) =>
+  data.fetchTimestamps[type][courseId] !== undefined ||
+  Object.values(data[`${type}Map`]).some((c) => c.courseId === courseId);
+
+export const contentPath = (type: CardContentType, id: string) =>
+  type === ContentType.DISCUSSION || type === ContentType.QUESTION ? '/' : `/content/${type}/${id}`;
+
+/**
+ * Show desktop notifications for changes found by `diffContents`, respecting user settings.
+ * `data` should be the state before the changes are merged, and `merged` the state after,
+ * so that contents ignored by rules on merging or muted are skipped.
+ */
+export async function notifyChanges(
+  data: DataState,
+  changes: ContentChange[],
+  merged: DataState = data,
+): Promise<void> {
+  const { enabled, grouped, types, courses } = data.notifySettings;
+  if (!enabled) return;
+
+  const toNotify = changes.filter(
+    (c) =>
+      fetchedBefore(data, c.type, c.courseId) &&
+      // modified contents are only marked as unread
+      c.kind !== 'updated' &&
+      types[c.type] &&
+      courses[c.courseId] !== false &&
+      !data.contentIgnore[c.courseId]?.[c.type] &&
+      !data[`${c.type}Map`][c.id]?.ignored &&
+      !isHidden(merged, c),
+  );
+  if (toNotify.length === 0) return;
+
+  const iconUrl = browser.runtime.getURL('/icons/128.png');
+  const courseName = (courseId: string) => data.courseMap[courseId]?.name ?? '';
+
+  if (!grouped) {
+    for (const c of toNotify) {
+      await browser.notifications.create(
+        notificationId(contentPath(c.type, c.id), `${c.type}-${c.id}`),
+        {
+          type: 'basic',
+          iconUrl,
+          title: `${describeChange(c)} · ${courseName(c.courseId)}`,
+          message: c.title,
+        },
+      );
+    }
+    return;
+  }
+
+  // unique for each batch, so that a later one does not replace an unread one
+  const batch = Date.now();
+  const byCourse = Object.groupBy(toNotify, (c) => c.courseId);
+  for (const [courseId, items] of Object.entries(byCourse)) {
+    if (!items) continue;
+    await browser.notifications.create(
+      notificationId(contentPath(items[0].type, items[0].id), `${courseId}-${batch}`),
+      {
+        type: 'basic',
+        iconUrl,
+        title: browser.i18n.getMessage('notifyGrouped', [
+          courseName(courseId),
+          items.length.toString(),
+        ]),
+        message: items.map((c) => `${describeChange(c)}：${c.title}`).join('\n'),
+      },
+    );
+  }
+}
+
+/** Get the path in app to navigate to when a notification is clicked. */
+export function parseNotificationId(id: string): string | undefined {
+  if (!id.startsWith(NOTIFY_ID_PREFIX)) return undefined;
+  return id.slice(NOTIFY_ID_PREFIX.length).split('@')[0];
+}
@@ -0,0 +1,46 @@
+import { STALE_THRESHOLD_MINUTES, SUPPORTED_CONTENT_TYPES } from '../constants';
+import type { DataState, SyncReport } from '../redux/reducers/data';
+import type { SupportedContentType } from '../types/data';
+
+export interface RefreshScope {
+  courseIds?: string[]; // all courses if not specified
+  types?: SupportedContentType[]; // all types if not specified
+  onlyStale?: boolean; // skip contents fetched recently
+}
+
+export interface RefreshTask {
+  type: SupportedContentType;
+  courseIds: string[];
+}
+
+/** Whether the scope covers the whole semester, in which case the course list is refreshed too. */
+export const isFullRefresh = (scope: RefreshScope) => !scope.courseIds && !scope.types;
+
+/** Decide which contents of which courses should be fetched. */
+export function planRefresh(data: DataState, scope: RefreshScope, now = Date.now()): RefreshTask[] {
+  const courseIds = scope.courseIds ?? Object.keys(data.courseMap);
+  const types = scope.types ?? SUPPORTED_CONTENT_TYPES;
+
+  const tasks: RefreshTask[] = [];
+  for (const type of types) {
+    const timestamps = data.fetchTimestamps[type];
+    const threshold = STALE_THRESHOLD_MINUTES[type] * 60 * 1000;
+    const stale = scope.onlyStale
+      ? courseIds.filter((cid) => now - (timestamps[cid] ?? 0) >= threshold)
+      : courseIds;
+    if (stale.length !== 0) tasks.push({ type, courseIds: stale });
+  }
+  return tasks;
+}
+
+/** Collect the failed fetches in a sync report to retry them. */
+export function planRetry(report: SyncReport): RefreshTask[] {
+  const tasks: RefreshTask[] = [];
+  for (const type of SUPPORTED_CONTENT_TYPES) {
+    const failed = Object.entries(report.records[type])
+      .filter(([, r]) => !r.success)
+      .map(([cid]) => cid);
+    if (failed.length !== 0) tasks.push({ type, courseIds: failed });
+  }
+  return tasks;
+}
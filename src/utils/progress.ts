@@ -0,0 +1,58 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+
+import type {
+  HomeworkInfo,
+  HomeworkProgress,
+  HomeworkStatus,
+  HomeworkTask,
+  TodoInfo,
+} from '../types/data';
+
+export const HOMEWORK_STATUSES: Record<HomeworkStatus, MessageDescriptor> = {
+  notStarted: msg`未开始`,
+  inProgress: msg`进行中`,
+  done: msg`已完成`,
+};
+
+export const EMPTY_PROGRESS: HomeworkProgress = { status: 'notStarted', tasks: [] };
+
+export const isProgressEmpty = (p: HomeworkProgress) =>
+  p.status === 'notStarted' && p.tasks.length === 0;
+
+/**
+ * Percentage of the homework done by the user's own account, `undefined` if not tracked.
+ *
+ * Homework marked as done counts as complete, otherwise the checked sub-tasks are counted.
+ * Homework in progress without any sub-tasks is taken as half done.
+ */
+export function progressPercent(h: HomeworkInfo): number | undefined {
+  const p = h.progress;
+  if (!p) return undefined;
+  if (p.status === 'done') return 100;
+  if (p.tasks.length !== 0)
+    return (p.tasks.filter((task) => task.done).length / p.tasks.length) * 100;
+  return p.status === 'inProgress' ? 50 : 0;
+}
+
+// order of homework by local progress: those started first, then untouched, then done
+const STAGES: Record<HomeworkStatus, number> = { inProgress: 0, notStarted: 1, done: 2 };
+
+/** The stage of local progress for sorting, lower goes first. To-dos are either untouched or done. */
+export function progressStage(c: HomeworkInfo | TodoInfo): number {
+  if (c.type === 'todo') return c.done ? STAGES.done : STAGES.notStarted;
+  const p = c.progress ?? EMPTY_PROGRESS;
+  if (p.status === 'notStarted' && p.tasks.some((task) => task.done)) return STAGES.inProgress;
+  return STAGES[p.status];
+}
+
+/** Replace the sub-tasks, moving the status along with the checked ones. */
+export function withTasks(p: HomeworkProgress, tasks: HomeworkTask[]): HomeworkProgress {
+  const done = tasks.filter((task) => task.done).length;
+  let status = p.status;
+  if (tasks.length !== 0 && done === tasks.length) status = 'done';
+  else if (p.status === 'done' ? tasks.length !== 0 : p.status === 'notStarted' && done !== 0) {
+    status = 'inProgress';
+  }
+  return { status, tasks };
+}
@@ -0,0 +1,197 @@
+import { ContentType, type CourseInfo } from 'thu-learn-lib';
+import { describe, expect, it } from 'vitest';
+
+import type { ContentInfo } from '../types/data';
+import { matchQuery, parseQuery } from './query';
+
+const NOW = new Date(2025, 2, 10, 12).getTime();
+const HOUR_MS = 60 * 60 * 1000;
+
+const course = { name: '软件工程', englishName: 'Software Engineering' } as CourseInfo;
+
+const notification = {
+  type: ContentType.NOTIFICATION,
+  id: 'n1',
+  courseId: 'c1',
+  title: 'Midterm: room changed',
+  publisher: '张老师',
+  date: new Date(2025, 2, 5),
+  hasRead: false,
+  starred: true,
+  ignored: false,
+  tags: ['Exam'],
+} as unknown as ContentInfo;
+
+const homework = {
+  type: ContentType.HOMEWORK,
+  id: 'h1',
+  courseId: 'c1',
+  title: 'Lab 2 report',
+  date: new Date(2025, 2, 1),
+  deadline: new Date(NOW + 36 * HOUR_MS),
+  submitted: true,
+  hasRead: true,
+  starred: false,
+  ignored: false,
+} as unknown as ContentInfo;
+
+const search = (text: string, c: ContentInfo) => matchQuery(parseQuery(text), c, course, NOW);
+
+describe('parseQuery', () => {
+  it('splits terms by spaces, ignoring extra ones', () => {
+    expect(parseQuery('  lab   report ')).toEqual({
+      terms: [
+        { key: 'text', value: 'lab', negated: false },
+        { key: 'text', value: 'report', negated: false },
+      ],
+      invalid: [],
+    });
+  });
+
+  it('parses an empty query to no terms', () => {
+    expect(parseQuery('')).toEqual({ terms: [], invalid: [] });
+    expect(parseQuery('   ')).toEqual({ terms: [], invalid: [] });
+  });
+
+  it('keeps quoted text together', () => {
+    expect(parseQuery('"room changed" lab').terms).toEqual([
+      { key: 'text', value: 'room changed', negated: false },
+      { key: 'text', value: 'lab', negated: false },
+    ]);
+  });
+
+  it('keeps quoted values of keys together', () => {
+    expect(parseQuery('course:"software eng"').terms).toEqual([
+      { key: 'course', value: 'software eng', negated: false },
+    ]);
+  });
+
+  it('takes an unclosed quote to the end of the query', () => {
+    expect(parseQuery('"room changed').terms).toEqual([
+      { key: 'text', value: 'room changed', negated: false },
+    ]);
+  });
+
+  it('negates terms with a leading dash', () => {
+    expect(parseQuery('-is:read -"lab report" -lab').terms).toEqual([
+      { key: 'is', value: 'read', negated: true },
+      { key: 'text', value: 'lab report', negated: true },
+      { key: 'text', value: 'lab', negated: true },
+    ]);
+  });
+
+  it('searches a lone dash as text', () => {
+    expect(parseQuery('-').terms).toEqual([{ key: 'text', value: '-', negated: false }]);
+  });
+
+  it('parses field filters', () => {
+    expect(parseQuery('Type:homework is:starred due:<7d publisher:Zhang tag:Exam').terms).toEqual([
+      { key: 'type', value: 'homework', negated: false },
+      { key: 'is', value: 'starred', negated: false },
+      { key: 'due', within: true, duration: 7 * 24 * HOUR_MS, negated: false },
+      { key: 'publisher', value: 'zhang', negated: false },
+      { key: 'tag', value: 'exam', negated: false },
+    ]);
+  });
+
+  it('parses dates, with `after` starting from the next day', () => {
+    expect(parseQuery('before:2025-3-1 after:2025-03-01').terms).toEqual([
+      { key: 'before', value: new Date(2025, 2, 1), negated: false },
+      { key: 'after', value: new Date(2025, 2, 2), negated: false },
+    ]);
+  });
+
+  it('rejects days that do not exist', () => {
+    expect(parseQuery('before:2025-13-40 after:2025-02-29 before:2024-02-29')).toEqual({
+      terms: [{ key: 'before', value: new Date(2024, 1, 29), negated: false }],
+      invalid: ['before:2025-13-40', 'after:2025-02-29'],
+    });
+  });
+
+  it('collects malformed filters as invalid', () => {
+    const query = parseQuery('type:video is:done due:7d due:<7m before:yesterday course: lab');
+    expect(query.terms).toEqual([{ key: 'text', value: 'lab', negated: false }]);
+    expect(query.invalid).toEqual([
+      'type:video',
+      'is:done',
+      'due:7d',
+      'due:<7m',
+      'before:yesterday',
+      'course:',
+    ]);
+  });
+
+  it('searches unknown keys as text', () => {
+    expect(parseQuery('Midterm: re:lab').terms).toEqual([
+      { key: 'text', value: 'midterm:', negated: false },
+      { key: 'text', value: 're:lab', negated: false },
+    ]);
+  });
+});
+
+describe('matchQuery', () => {
+  it('matches everything with no terms', () => {
+    expect(search('', notification)).toBe(true);
+  });
+
+  it('matches text in titles, case-insensitively', () => {
+    expect(search('MIDTERM', notification)).toBe(true);
+    expect(search('"room changed"', notification)).toBe(true);
+    expect(search('"changed room"', notification)).toBe(false);
+  });
+
+  it('requires all terms to match', () => {
+    expect(search('midterm room', notification)).toBe(true);
+    expect(search('midterm lab', notification)).toBe(false);
+  });
+
+  it('applies negation to its own term only', () => {
+    expect(search('-lab', notification)).toBe(true);
+    expect(search('-lab', homework)).toBe(false);
+    expect(search('midterm -is:read', notification)).toBe(true);
+    expect(search('midterm -is:starred', notification)).toBe(false);
+    expect(search('lab -lab', homework)).toBe(false);
+  });
+
+  it('ignores invalid terms', () => {
+    expect(search('is:done midterm', notification)).toBe(true);
+  });
+
+  it('matches course names in either language', () => {
+    expect(search('course:软件', notification)).toBe(true);
+    expect(search('course:"software engineering"', notification)).toBe(true);
+    expect(search('course:physics', notification)).toBe(false);
+    expect(matchQuery(parseQuery('course:软件'), notification, undefined, NOW)).toBe(false);
+    expect(matchQuery(parseQuery('-course:软件'), notification, undefined, NOW)).toBe(true);
+  });
+
+  it('matches types and states', () => {
+    expect(search('type:notification is:unread is:starred', notification)).toBe(true);
+    expect(search('type:homework', notification)).toBe(false);
+    expect(search('is:submitted is:read', homework)).toBe(true);
+    expect(search('is:submitted', notification)).toBe(false);
+  });
+
+  it('matches deadlines within or beyond a duration', () => {
+    expect(search('due:<2d', homework)).toBe(true);
+    expect(search('due:<1d', homework)).toBe(false);
+    expect(search('due:>1d', homework)).toBe(true);
+    expect(search('due:>2d', homework)).toBe(false);
+    expect(search('due:<1w', notification)).toBe(false);
+  });
+
+  it('matches dates by day', () => {
+    expect(search('before:2025-03-05', notification)).toBe(false);
+    expect(search('before:2025-03-06', notification)).toBe(true);
+    expect(search('after:2025-03-04', notification)).toBe(true);
+    expect(search('after:2025-03-05', notification)).toBe(false);
+  });
+
+  it('matches publishers and tags', () => {
+    expect(search('publisher:张', notification)).toBe(true);
+    expect(search('publisher:张', homework)).toBe(false);
+    expect(search('tag:exam', notification)).toBe(true);
+    expect(search('tag:exa', notification)).toBe(false);
+    expect(search('-tag:exam', homework)).toBe(true);
+  });
+});
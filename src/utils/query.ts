@@ -0,0 +1,176 @@
+import { ContentType, type CourseInfo } from 'thu-learn-lib';
+
+import { CARD_CONTENT_TYPES } from '../constants';
+import type { CardContentType, ContentInfo } from '../types/data';
+
+// a query is a list of space-separated terms, which must all match:
+//   text, "quoted text"  title contains the text
+//   course:<name>        course name (Chinese or English) contains the name
+//   type:<type>          one of notification, file, homework, discussion, question
+//   is:<state>           one of unread, read, starred, submitted
+//   due:<7d, due:>12h    homework deadline is within / beyond the duration (h, d or w)
+//   before:<date>        date (publish time or deadline) is before the day (yyyy-mm-dd)
+//   after:<date>         date is after the day
+//   publisher:<name>     publisher name of notification, discussion or question contains the name
+//   tag:<name>           has the tag (case-insensitive)
+// and a term is negated by a leading `-`, e.g. `-is:read`
+
+const IS_STATES = ['unread', 'read', 'starred', 'submitted'] as const;
+type IsState = (typeof IS_STATES)[number];
+
+type TermMatcher =
+  | { key: 'text'; value: string }
+  | { key: 'course'; value: string }
+  | { key: 'type'; value: CardContentType }
+  | { key: 'is'; value: IsState }
+  | { key: 'due'; within: boolean; duration: number }
+  | { key: 'before' | 'after'; value: Date }
+  | { key: 'publisher'; value: string }
+  | { key: 'tag'; value: string };
+
+export type QueryTerm = TermMatcher & { negated: boolean };
+
+export interface Query {
+  terms: QueryTerm[];
+  invalid: string[]; // terms that could not be parsed, which are ignored
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// split by spaces, keeping quoted parts (which may follow a key) together
+const tokenize = (text: string) => Array.from(text.matchAll(/(?:[^\s"]+|"[^"]*"?)+/g), (m) => m[0]);
+
+const unquote = (value: string) => value.replace(/"/g, '');
+
+const parseDay = (value: string) => {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  // out-of-range parts roll over to other days instead of failing
+  const valid =
+    date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+  return valid ? date : undefined;
+};
+
+function parseTerm(key: string, value: string): TermMatcher | undefined {
+  switch (key) {
+    case 'course':
+    case 'publisher':
+    case 'tag':
+      return value ? { key, value: value.toLocaleLowerCase() } : undefined;
+    case 'type':
+      return CARD_CONTENT_TYPES.includes(value as CardContentType)
+        ? { key, value: value as CardContentType }
+        : undefined;
+    case 'is':
+      return IS_STATES.includes(value as IsState) ? { key, value: value as IsState } : undefined;
+    case 'due': {
+      const match = /^([<>])(\d+)([hdw])$/.exec(value);
+      if (!match) return undefined;
+      return {
+        key,
+        within: match[1] === '<',
+        duration: Number(match[2]) * DURATION_UNITS[match[3]],
+      };
+    }
+    case 'before':
+    case 'after': {
+      const date = parseDay(value);
+      if (!date) return undefined;
+      // `after` a day means from the start of the next day
+      if (key === 'after') date.setDate(date.getDate() + 1);
+      return { key, value: date };
+    }
+  }
+}
+
+const KEYS = ['course', 'type', 'is', 'due', 'before', 'after', 'publisher', 'tag'];
+
+export function parseQuery(text: string): Query {
+  const query: Query = { terms: [], invalid: [] };
+  for (const token of tokenize(text)) {
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+    const colon = body.indexOf(':');
+    const key = colon === -1 ? '' : body.slice(0, colon).toLowerCase();
+
+    // unknown keys are searched as text, as titles may contain colons
+    if (!KEYS.includes(key)) {
+      const value = unquote(body).toLocaleLowerCase();
+      if (value) query.terms.push({ key: 'text', value, negated });
+      continue;
+    }
+    const term = parseTerm(key, unquote(body.slice(colon + 1)));
+    if (term) query.terms.push({ ...term, negated });
+    else query.invalid.push(token);
+  }
+  return query;
+}
+
+export const publisherOf = (c: ContentInfo) => {
+  switch (c.type) {
+    case ContentType.NOTIFICATION:
+      return c.publisher;
+    case ContentType.DISCUSSION:
+    case ContentType.QUESTION:
+      return c.publisherName;
+    default:
+      return undefined;
+  }
+};
+
+function matchTerm(term: TermMatcher, c: ContentInfo, course: CourseInfo | undefined, now: number) {
+  switch (term.key) {
+    case 'text':
+      return c.title.toLocaleLowerCase().includes(term.value);
+    case 'course':
+      return (
+        !!course &&
+        [course.name, course.englishName].some((name) =>
+          name?.toLocaleLowerCase().includes(term.value),
+        )
+      );
+    case 'type':
+      return c.type === term.value;
+    case 'is':
+      switch (term.value) {
+        case 'unread':
+          return !c.hasRead;
+        case 'read':
+          return c.hasRead;
+        case 'starred':
+          return c.starred;
+        case 'submitted':
+          return c.type === ContentType.HOMEWORK && c.submitted;
+      }
+      return false;
+    case 'due': {
+      if (c.type !== ContentType.HOMEWORK && c.type !== 'todo') return false;
+      const left = c.deadline.getTime() - now;
+      return term.within ? left >= 0 && left < term.duration : left >= term.duration;
+    }
+    case 'before':
+      return c.date.getTime() < term.value.getTime();
+    case 'after':
+      return c.date.getTime() >= term.value.getTime();
+    case 'publisher':
+      return !!publisherOf(c)?.toLocaleLowerCase().includes(term.value);
+    case 'tag':
+      return !!c.tags?.some((tag) => tag.toLocaleLowerCase() === term.value);
+  }
+}
+
+/** Check whether a content matches all terms of the query. */
+export function matchQuery(
+  query: Query,
+  c: ContentInfo,
+  course: CourseInfo | undefined,
+  now = Date.now(),
+): boolean {
+  return query.terms.every((term) => matchTerm(term, c, course, now) !== term.negated);
+}
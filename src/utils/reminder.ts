@@ -0,0 +1,106 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { DataState } from '../redux/reducers/data';
+import type { HomeworkInfo } from '../types/data';
+import { isMuted } from './mute';
+import { contentPath, notificationId } from './notify';
+
+// alarm name: `${REMINDER_ALARM_PREFIX}${homework id}:${offset in minutes}[:late]`
+const REMINDER_ALARM_PREFIX = 'reminder:';
+
+interface Reminder {
+  homeworkId: string;
+  offset: number;
+  late: boolean;
+}
+
+const alarmName = ({ homeworkId, offset, late }: Reminder) =>
+  `${REMINDER_ALARM_PREFIX}${homeworkId}:${offset}${late ? ':late' : ''}`;
+
+const parseAlarmName = (name: string): Reminder | undefined => {
+  if (!name.startsWith(REMINDER_ALARM_PREFIX)) return undefined;
+  const [homeworkId, offset, late] = name.slice(REMINDER_ALARM_PREFIX.length).split(':');
+  return { homeworkId, offset: Number.parseInt(offset, 10), late: late === 'late' };
+};
+
+export const isReminderAlarm = (name: string) => name.startsWith(REMINDER_ALARM_PREFIX);
+
+const needReminder = (data: DataState, hw: HomeworkInfo) =>
+  !hw.submitted &&
+  !hw.ignored &&
+  !data.contentIgnore[hw.courseId]?.[ContentType.HOMEWORK] &&
+  !isMuted(hw, data.muteRules);
+
+const reminderTime = (hw: HomeworkInfo, { offset, late }: Reminder) => {
+  const deadline = late ? hw.lateSubmissionDeadline : hw.deadline;
+  return deadline && deadline.getTime() - offset * 60 * 1000;
+};
+
+/** Compute all reminders that should fire in the future. */
+function plan(data: DataState): Map<string, number> {
+  const { enabled, offsets, lateSubmission } = data.reminderSettings;
+  const planned = new Map<string, number>();
+  if (!enabled) return planned;
+
+  const now = Date.now();
+  for (const hw of Object.values(data.homeworkMap)) {
+    if (!needReminder(data, hw)) continue;
+    for (const offset of offsets) {
+      for (const late of lateSubmission ? [false, true] : [false]) {
+        const reminder = { homeworkId: hw.id, offset, late };
+        const time = reminderTime(hw, reminder);
+        if (time && time > now) planned.set(alarmName(reminder), time);
+      }
+    }
+  }
+  return planned;
+}
+
+/**
+ * Reschedule the reminder alarms according to current data,
+ * should be called whenever homeworks or reminder settings change.
+ */
+export async function scheduleReminders(data: DataState): Promise<void> {
+  const planned = plan(data);
+  const existing = (await browser.alarms.getAll()).filter((a) => isReminderAlarm(a.name));
+
+  for (const alarm of existing) {
+    if (planned.get(alarm.name) === alarm.scheduledTime) {
+      // unchanged, keep it
+      planned.delete(alarm.name);
+    } else {
+      await browser.alarms.clear(alarm.name);
+    }
+  }
+  for (const [name, when] of planned) {
+    await browser.alarms.create(name, { when });
+  }
+}
+
+/** Show the notification of a fired reminder alarm. */
+export async function fireReminder(data: DataState, alarm: Browser.alarms.Alarm): Promise<void> {
+  const reminder = parseAlarmName(alarm.name);
+  if (!reminder) return;
+
+  const hw = data.homeworkMap[reminder.homeworkId];
+  // the homework might have been submitted or changed after scheduling
+  if (!hw || !data.reminderSettings.enabled || !needReminder(data, hw)) return;
+  const time = reminderTime(hw, reminder);
+  if (!time || Math.abs(time - alarm.scheduledTime) > 60 * 1000) return;
+
+  const deadline = reminder.late ? hw.lateSubmissionDeadline! : hw.deadline;
+  await browser.notifications.create(
+    notificationId(contentPath(ContentType.HOMEWORK, hw.id), alarm.name),
+    {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icons/128.png'),
+      title: browser.i18n.getMessage(reminder.late ? 'reminderLateTitle' : 'reminderTitle', [
+        hw.title,
+      ]),
+      message: browser.i18n.getMessage('reminderMessage', [
+        data.courseMap[hw.courseId]?.name ?? '',
+        deadline.toLocaleString(),
+      ]),
+    },
+  );
+}
@@ -0,0 +1,85 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { FetchedContentInfo, SupportedContentType } from '../types/data';
+import { publisherOf } from './query';
+import { normalizeTags } from './tag';
+
+export interface RuleActions {
+  star: boolean;
+  ignore: boolean;
+  markRead: boolean;
+  tags: string[]; // added to the matched contents
+}
+
+/** A rule applied to newly fetched contents, which takes actions on those matching all conditions. */
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // conditions, those empty or unset are not checked
+  types: SupportedContentType[];
+  courseIds: string[];
+  title?: string; // regular expression, case-insensitive
+  publisher?: string; // regular expression, case-insensitive
+  extensions: string[]; // of files, in lower case without the dot
+  markedImportant?: boolean; // only notifications and files match if set
+  actions: RuleActions;
+}
+
+/** Check a pattern given by the user, returning the error message if it is invalid. */
+export function checkPattern(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern, 'i');
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+// invalid patterns never match
+const testPattern = (pattern: string, text: string | undefined) => {
+  if (checkPattern(pattern) !== undefined) return false;
+  return new RegExp(pattern, 'i').test(text ?? '');
+};
+
+/** Split the extensions typed by the user, e.g. `.PDF, pptx` into `['pdf', 'pptx']`. */
+export const parseExtensions = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,，]+/)
+        .map((ext) => ext.replace(/^\./, '').toLowerCase())
+        .filter((ext) => ext),
+    ),
+  );
+
+export function matchRule(rule: Rule, c: FetchedContentInfo): boolean {
+  if (rule.types.length !== 0 && !rule.types.includes(c.type)) return false;
+  if (rule.courseIds.length !== 0 && !rule.courseIds.includes(c.courseId)) return false;
+  if (rule.title && !testPattern(rule.title, c.title)) return false;
+  if (rule.publisher && !testPattern(rule.publisher, publisherOf(c))) return false;
+  if (
+    rule.extensions.length !== 0 &&
+    (c.type !== ContentType.FILE || !rule.extensions.includes(c.fileType.toLowerCase()))
+  ) {
+    return false;
+  }
+  if (
+    rule.markedImportant !== undefined &&
+    ((c.type !== ContentType.NOTIFICATION && c.type !== ContentType.FILE) ||
+      c.markedImportant !== rule.markedImportant)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export const hasActions = ({ star, ignore, markRead, tags }: RuleActions) =>
+  star || ignore || markRead || tags.length !== 0;
+
+/** Take the actions of a rule on a content, in place. */
+export function applyActions(c: FetchedContentInfo, actions: RuleActions) {
+  if (actions.star) c.starred = true;
+  if (actions.ignore) c.ignored = true;
+  if (actions.markRead) c.hasRead = true;
+  if (actions.tags.length !== 0) c.tags = normalizeTags([...(c.tags ?? []), ...actions.tags]);
+}
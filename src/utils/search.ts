@@ -0,0 +1,220 @@
+import { ContentType } from 'thu-learn-lib';
+
+import { CARD_CONTENT_TYPES } from '../constants';
+import type { DataState } from '../redux/reducers/data';
+import type { CardContentType, ContentInfo } from '../types/data';
+
+// contents are indexed by terms: words for latin text, and character unigrams and bigrams for
+// CJK text (which has no word boundaries), so that a query matches wherever all of its terms do
+
+const TITLE_WEIGHT = 3;
+const SNIPPET_CONTEXT = 40; // characters before and after the first match
+
+/** Fields other than title that are searched, per content type. */
+const BODY_FIELDS: Record<CardContentType, string[]> = {
+  [ContentType.NOTIFICATION]: ['content'],
+  [ContentType.FILE]: ['description'],
+  [ContentType.HOMEWORK]: ['description', 'gradeContent'],
+  [ContentType.DISCUSSION]: [],
+  [ContentType.QUESTION]: [],
+  todo: [], // only the note
+};
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+};
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&\w+;/g, (e) => ENTITIES[e] ?? ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// runs of CJK characters, or of letters and digits in other scripts
+const SEGMENT_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+|[\p{L}\p{N}]+/gu;
+const CJK_REGEX = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/** Split text into the words or CJK runs that are searched for. */
+const segment = (text: string) => text.toLocaleLowerCase().match(SEGMENT_REGEX) ?? [];
+
+function terms(text: string, forQuery = false): string[] {
+  const result: string[] = [];
+  for (const seg of segment(text)) {
+    if (!CJK_REGEX.test(seg)) {
+      result.push(seg);
+      continue;
+    }
+    const chars = Array.from(seg);
+    // bigrams are enough to match a query of more than one character
+    if (!forQuery || chars.length === 1) result.push(...chars);
+    for (let i = 0; i + 1 < chars.length; i++) result.push(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+const countTerms = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const term of terms(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+};
+
+interface IndexedDoc {
+  content: ContentInfo;
+  body: string; // plain text of body fields and the note
+  counts: Map<string, number>; // weighted term frequencies
+}
+
+// term -> keys of documents containing it
+const postings = new Map<string, Set<string>>();
+const docs = new Map<string, IndexedDoc>();
+let indexedMaps: Partial<Record<CardContentType, Record<string, ContentInfo>>> = {};
+let indexedNotes: Record<string, string> = {};
+
+const docKey = (type: CardContentType, id: string) => `${type}-${id}`;
+
+function removeDoc(key: string) {
+  const doc = docs.get(key);
+  if (!doc) return;
+  for (const term of doc.counts.keys()) {
+    const set = postings.get(term);
+    set?.delete(key);
+    if (set?.size === 0) postings.delete(term);
+  }
+  docs.delete(key);
+}
+
+function addDoc(key: string, content: ContentInfo, note?: string) {
+  const fields = content as unknown as Record<string, string | undefined>;
+  const body = BODY_FIELDS[content.type]
+    .map((field) => stripHtml(fields[field] ?? ''))
+    .concat(note?.replace(/\s+/g, ' ').trim() ?? '')
+    .filter(Boolean)
+    .join(' ');
+
+  const old = docs.get(key);
+  // only flags (e.g. read state) are changed in most updates
+  if (old && old.content.title === content.title && old.body === body) {
+    old.content = content;
+    return;
+  }
+  removeDoc(key);
+
+  const counts = countTerms(body);
+  for (const [term, count] of countTerms(content.title)) {
+    counts.set(term, (counts.get(term) ?? 0) + count * TITLE_WEIGHT);
+  }
+  for (const term of counts.keys()) {
+    let set = postings.get(term);
+    if (!set) {
+      set = new Set();
+      postings.set(term, set);
+    }
+    set.add(key);
+  }
+  docs.set(key, { content, body, counts });
+}
+
+/** Bring the index up to date, only contents changed since last update are indexed again. */
+export function updateSearchIndex(data: DataState) {
+  const { notes } = data;
+  const notesChanged = notes !== indexedNotes;
+  for (const type of CARD_CONTENT_TYPES) {
+    const oldMap = indexedMaps[type] ?? {};
+    const newMap: Record<string, ContentInfo> = data[`${type}Map`];
+    if (oldMap === newMap && !notesChanged) continue;
+    // records are immutable in redux, so a changed reference means a changed record
+    for (const [id, c] of Object.entries(newMap)) {
+      const key = docKey(type, id);
+      if (oldMap[id] !== c || notes[key] !== indexedNotes[key]) addDoc(key, c, notes[key]);
+    }
+    for (const id of Object.keys(oldMap)) {
+      if (!(id in newMap)) removeDoc(docKey(type, id));
+    }
+    indexedMaps = { ...indexedMaps, [type]: newMap };
+  }
+  indexedNotes = notes;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchResult {
+  content: ContentInfo;
+  score: number;
+  title: SnippetPart[];
+  snippet: SnippetPart[]; // part of the body around the first match, empty if not matched
+}
+
+/** Split text into parts, highlighting every occurrence of the segments. */
+function highlight(text: string, segments: string[]): SnippetPart[] {
+  const lower = text.toLocaleLowerCase();
+  const parts: SnippetPart[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    let start = -1;
+    let length = 0;
+    for (const seg of segments) {
+      const i = lower.indexOf(seg, pos);
+      if (i !== -1 && (start === -1 || i < start || (i === start && seg.length > length))) {
+        start = i;
+        length = seg.length;
+      }
+    }
+    if (start === -1) break;
+    if (start > pos) parts.push({ text: text.slice(pos, start), highlighted: false });
+    parts.push({ text: text.slice(start, start + length), highlighted: true });
+    pos = start + length;
+  }
+  if (pos < text.length) parts.push({ text: text.slice(pos), highlighted: false });
+  return parts;
+}
+
+function snippet(body: string, segments: string[]): SnippetPart[] {
+  const lower = body.toLocaleLowerCase();
+  const first = Math.min(...segments.map((seg) => lower.indexOf(seg)).filter((i) => i !== -1));
+  if (!Number.isFinite(first)) return [];
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(body.length, first + SNIPPET_CONTEXT * 2);
+  const parts = highlight(body.slice(start, end), segments);
+  if (start > 0) parts.unshift({ text: '…', highlighted: false });
+  if (end < body.length) parts.push({ text: '…', highlighted: false });
+  return parts;
+}
+
+/** Find contents containing all terms of the query, best matches first. */
+export function searchContents(query: string, limit = 100): SearchResult[] {
+  const queryTerms = Array.from(new Set(terms(query, true)));
+  if (queryTerms.length === 0) return [];
+
+  // start from the rarest term, as every term must be matched
+  const sets = queryTerms.map((term) => postings.get(term) ?? new Set<string>());
+  sets.sort((a, b) => a.size - b.size);
+  const keys = Array.from(sets[0]).filter((key) => sets.every((set) => set.has(key)));
+
+  const segments = segment(query);
+  return keys
+    .map((key) => {
+      const doc = docs.get(key) as IndexedDoc;
+      // tf-idf, with the weight of title included in term frequencies
+      const score = queryTerms.reduce((sum, term) => {
+        const idf = Math.log(1 + docs.size / (postings.get(term)?.size ?? 1));
+        return sum + (doc.counts.get(term) ?? 0) * idf;
+      }, 0);
+      return {
+        content: doc.content,
+        score,
+        title: highlight(doc.content.title, segments),
+        snippet: snippet(doc.body, segments),
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.content.date.getTime() - a.content.date.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,169 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+import { useEffect, useRef } from 'react';
+
+export type ShortcutAction =
+  | 'nextCard'
+  | 'prevCard'
+  | 'openCard'
+  | 'toggleStar'
+  | 'toggleRead'
+  | 'toggleIgnore'
+  | 'focusFilter'
+  | 'goHome'
+  | 'nextCourse'
+  | 'showHelp';
+
+/** Key sequences are keys (as in `KeyboardEvent.key`) separated by spaces, e.g. `g h`. */
+export const SHORTCUT_ACTIONS: Record<ShortcutAction, { name: MessageDescriptor; keys: string }> = {
+  nextCard: { name: msg`下一张卡片`, keys: 'j' },
+  prevCard: { name: msg`上一张卡片`, keys: 'k' },
+  openCard: { name: msg`打开卡片`, keys: 'Enter' },
+  toggleStar: { name: msg`切换星标`, keys: 's' },
+  toggleRead: { name: msg`切换已读`, keys: 'r' },
+  toggleIgnore: { name: msg`切换忽略`, keys: 'i' },
+  focusFilter: { name: msg`筛选卡片`, keys: '/' },
+  goHome: { name: msg`回到首页`, keys: 'g h' },
+  nextCourse: { name: msg`切换到下一门课程`, keys: 'g c' },
+  showHelp: { name: msg`显示快捷键列表`, keys: '?' },
+};
+
+// a pending sequence is dropped if the next key does not come in time
+const SEQUENCE_TIMEOUT = 1500;
+
+const keyName = (key: string) => (key === ' ' ? 'Space' : key);
+
+/** Normalize user input of a key sequence, or return `undefined` if it is empty. */
+export const normalizeKeys = (text: string) => {
+  const keys = text.split(/\s+/).filter((k) => k !== '');
+  return keys.length === 0 ? undefined : keys.join(' ');
+};
+
+/** Merge user bindings over the default ones. */
+export const resolveShortcuts = (
+  custom: Partial<Record<ShortcutAction, string>>,
+): Record<ShortcutAction, string> => {
+  const result = {} as Record<ShortcutAction, string>;
+  for (const action of Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]) {
+    result[action] = custom[action] ?? SHORTCUT_ACTIONS[action].keys;
+  }
+  return result;
+};
+
+/**
+ * Find actions whose key sequences clash, i.e. are equal or one is a prefix of the other
+ * (the longer one would never fire).
+ */
+export const findConflicts = (bindings: Record<ShortcutAction, string>): Set<ShortcutAction> => {
+  const conflicts = new Set<ShortcutAction>();
+  const entries = Object.entries(bindings) as [ShortcutAction, string][];
+  for (const [a, aKeys] of entries) {
+    for (const [b, bKeys] of entries) {
+      if (a !== b && `${bKeys} `.startsWith(`${aKeys} `)) {
+        conflicts.add(a);
+        conflicts.add(b);
+      }
+    }
+  }
+  return conflicts;
+};
+
+// elements activated by Enter or Space themselves
+const INTERACTIVE_SELECTOR =
+  'button, a[href], summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="checkbox"], [role="switch"]';
+
+const ACTIVATION_KEYS = ['Enter', ' '];
+
+/**
+ * Shortcuts must not fire while the user is typing, when focus is in an iframe,
+ * when a dialog is open, or when the key activates the focused button or link.
+ */
+const shouldIgnore = (ev: KeyboardEvent) => {
+  if (ev.ctrlKey || ev.metaKey || ev.altKey || ev.isComposing) return true;
+  const active = document.activeElement;
+  if (active instanceof HTMLIFrameElement) return true;
+  const target = ev.target;
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.closest('[role="dialog"]') !== null ||
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement ||
+      (ACTIVATION_KEYS.includes(ev.key) && target.closest(INTERACTIVE_SELECTOR) !== null))
+  );
+};
+
+/**
+ * Match keyboard events against bindings, keeping track of multi-key sequences.
+ * Returns the action to fire, if any.
+ */
+export const createShortcutMatcher = () => {
+  let pending: string[] = [];
+  let lastTime = 0;
+
+  return (ev: KeyboardEvent, bindings: Record<ShortcutAction, string>) => {
+    if (shouldIgnore(ev)) {
+      pending = [];
+      return undefined;
+    }
+    const key = keyName(ev.key);
+    if (ev.timeStamp - lastTime > SEQUENCE_TIMEOUT) pending = [];
+    lastTime = ev.timeStamp;
+
+    const entries = Object.entries(bindings) as [ShortcutAction, string][];
+    // retry with the single key if the pending sequence leads nowhere
+    for (const sequence of pending.length !== 0 ? [[...pending, key], [key]] : [[key]]) {
+      const text = sequence.join(' ');
+      const matched = entries.find(([_, keys]) => keys === text);
+      if (matched) {
+        pending = [];
+        return matched[0];
+      }
+      if (entries.some(([_, keys]) => keys.startsWith(`${text} `))) {
+        pending = sequence;
+        return undefined;
+      }
+    }
+    pending = [];
+    return undefined;
+  };
+};
+
+// a handler returns `false` if it has nothing to act on, leaving the key to its default behavior
+type ShortcutHandler = () => unknown;
+type ShortcutHandlers = Partial<Record<ShortcutAction, ShortcutHandler>>;
+
+// handlers registered by mounted components, the latest registration wins
+const registry: ShortcutHandlers[] = [];
+
+/** Get the handler of an action from mounted components. */
+export const getShortcutHandler = (action: ShortcutAction) => {
+  for (let i = registry.length - 1; i >= 0; i--) {
+    const handler = registry[i][action];
+    if (handler) return handler;
+  }
+  return undefined;
+};
+
+/** Register handlers of shortcuts for as long as the calling component is mounted. */
+export const useShortcutHandlers = (handlers: ShortcutHandlers) => {
+  // handlers are recreated on every render, keep the latest ones without re-registering
+  const ref = useRef(handlers);
+  ref.current = handlers;
+
+  useEffect(() => {
+    const proxy: ShortcutHandlers = {};
+    for (const action of Object.keys(ref.current) as ShortcutAction[]) {
+      proxy[action] = () => {
+        // the component may stop handling the action on re-rendering
+        const handler = ref.current[action];
+        return handler ? handler() : false;
+      };
+    }
+    registry.push(proxy);
+    return () => {
+      registry.splice(registry.indexOf(proxy), 1);
+    };
+  }, []);
+};
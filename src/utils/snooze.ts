@@ -0,0 +1,48 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+import { ContentType } from 'thu-learn-lib';
+
+import type { ContentInfo } from '../types/data';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const at = (now: number, days: number, hours: number) => {
+  const date = new Date(now);
+  date.setDate(date.getDate() + days);
+  date.setHours(hours, 0, 0, 0);
+  return date.getTime();
+};
+
+const beforeDeadline = (c: ContentInfo, days: number) =>
+  c.type === ContentType.HOMEWORK || c.type === 'todo'
+    ? c.deadline.getTime() - days * DAY_MS
+    : undefined;
+
+interface SnoozePreset {
+  name: MessageDescriptor;
+  // the time to snooze until, or `undefined` if not applicable to the content
+  until: (c: ContentInfo, now: number) => number | undefined;
+}
+
+export const SNOOZE_PRESETS: SnoozePreset[] = [
+  { name: msg`3 小时后`, until: (_c, now) => now + 3 * HOUR_MS },
+  { name: msg`今晚 20:00`, until: (_c, now) => at(now, 0, 20) },
+  { name: msg`明天 8:00`, until: (_c, now) => at(now, 1, 8) },
+  { name: msg`下周一 8:00`, until: (_c, now) => at(now, (8 - new Date(now).getDay()) % 7 || 7, 8) },
+  { name: msg`截止前 3 天`, until: (c) => beforeDeadline(c, 3) },
+  { name: msg`截止前 1 天`, until: (c) => beforeDeadline(c, 1) },
+];
+
+/** Presets applicable to the content, i.e. those in the future. */
+export const availablePresets = (c: ContentInfo, now = Date.now()) =>
+  SNOOZE_PRESETS.flatMap(({ name, until }) => {
+    const time = until(c, now);
+    return time !== undefined && time > now ? [{ name, until: time }] : [];
+  });
+
+export const isSnoozed = (c: ContentInfo, now = Date.now()) =>
+  c.snoozedUntil !== undefined && c.snoozedUntil > now;
+
+export const isSnoozeExpired = (c: ContentInfo, now = Date.now()) =>
+  c.snoozedUntil !== undefined && c.snoozedUntil <= now;
@@ -0,0 +1,110 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/core/macro';
+import { ContentType, type CourseInfo } from 'thu-learn-lib';
+
+import type { CardFilter } from '../redux/reducers/ui';
+import type { ContentInfo } from '../types/data';
+import { progressStage } from './progress';
+
+export type SortStrategy = 'default' | 'newest' | 'deadline' | 'course' | 'important' | 'size';
+
+type Comparator = (a: ContentInfo, b: ContentInfo, courses: Record<string, CourseInfo>) => number;
+
+// `true` goes first
+const compareBoolean = (a: boolean, b: boolean) => {
+  if (a === b) return 0;
+  return a ? -1 : 1;
+};
+
+const compareNewest: Comparator = (a, b) => b.date.getTime() - a.date.getTime();
+
+// homework and to-dos, whose date is the deadline
+const hasDeadline = (c: ContentInfo) => c.type === ContentType.HOMEWORK || c.type === 'todo';
+
+const isNotDue = (c: ContentInfo, now: number) => hasDeadline(c) && c.date.getTime() > now;
+
+const isImportant = (c: ContentInfo) =>
+  (c.type === ContentType.NOTIFICATION || c.type === ContentType.FILE) && c.markedImportant;
+
+// stage of local progress of unfinished work not due yet, `undefined` for others
+const pendingStage = (c: ContentInfo, now: number) =>
+  isNotDue(c, now) &&
+  ((c.type === ContentType.HOMEWORK && !c.submitted) || (c.type === 'todo' && !c.done))
+    ? progressStage(c)
+    : undefined;
+
+const compareDefault: Comparator = (a, b) => {
+  const now = Date.now();
+  const aNotDue = isNotDue(a, now);
+  const bNotDue = isNotDue(b, now);
+  const aStage = pendingStage(a, now);
+  const bStage = pendingStage(b, now);
+  return (
+    compareBoolean(a.starred, b.starred) ||
+    compareBoolean(!a.hasRead, !b.hasRead) ||
+    compareBoolean(aNotDue, bNotDue) ||
+    compareBoolean(aStage !== undefined, bStage !== undefined) ||
+    (aStage ?? 0) - (bStage ?? 0) ||
+    (a.date.getTime() - b.date.getTime()) * (aNotDue && bNotDue ? 1 : -1)
+  );
+};
+
+// homework not due yet (nearest first), then past deadlines (latest first), then others
+const compareDeadline: Comparator = (a, b, courses) => {
+  const now = Date.now();
+  const aNotDue = isNotDue(a, now);
+  const bNotDue = isNotDue(b, now);
+  return (
+    compareBoolean(aNotDue, bNotDue) ||
+    compareBoolean(hasDeadline(a), hasDeadline(b)) ||
+    (aNotDue && bNotDue ? a.date.getTime() - b.date.getTime() : compareNewest(a, b, courses))
+  );
+};
+
+// contents without a course go last
+const compareCourse: Comparator = (a, b, courses) =>
+  compareBoolean(!!a.courseId, !!b.courseId) ||
+  (courses[a.courseId ?? '']?.name ?? '').localeCompare(courses[b.courseId ?? '']?.name ?? '') ||
+  (a.courseId ?? '').localeCompare(b.courseId ?? '') ||
+  compareNewest(a, b, courses);
+
+const compareImportant: Comparator = (a, b, courses) =>
+  compareBoolean(isImportant(a), isImportant(b)) || compareDefault(a, b, courses);
+
+const compareSize: Comparator = (a, b, courses) => {
+  const aSize = a.type === ContentType.FILE ? a.rawSize : -1;
+  const bSize = b.type === ContentType.FILE ? b.rawSize : -1;
+  return bSize - aSize || compareNewest(a, b, courses);
+};
+
+export const SORT_STRATEGIES: Record<
+  SortStrategy,
+  { name: MessageDescriptor; compare: Comparator }
+> = {
+  default: { name: msg`默认排序`, compare: compareDefault },
+  newest: { name: msg`最新发布`, compare: compareNewest },
+  deadline: { name: msg`截止时间最近`, compare: compareDeadline },
+  course: { name: msg`按课程`, compare: compareCourse },
+  important: { name: msg`重要优先`, compare: compareImportant },
+  size: { name: msg`文件大小`, compare: compareSize },
+};
+
+/** Key of a card filter, under which its sort strategy is remembered. */
+export const cardFilterKey = ({ type, courseId, viewId, tag }: CardFilter) =>
+  viewId
+    ? `view-${viewId}`
+    : tag !== undefined
+      ? `tag-${tag}`
+      : `${type ?? 'summary'}-${courseId ?? 'all'}`;
+
+/** Sort contents by the strategy, ties are broken by type and id to be deterministic. */
+export function sortContents(
+  contents: ContentInfo[],
+  strategy: SortStrategy,
+  courses: Record<string, CourseInfo>,
+): ContentInfo[] {
+  const { compare } = SORT_STRATEGIES[strategy] ?? SORT_STRATEGIES.default;
+  return contents.sort(
+    (a, b) => compare(a, b, courses) || a.type.localeCompare(b.type) || a.id.localeCompare(b.id),
+  );
+}
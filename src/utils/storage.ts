@@ -0,0 +1,175 @@
+import { SCHEMA_VERSION, SUPPORTED_CONTENT_TYPES } from '../constants';
+import type { DataState } from '../redux/reducers/data';
+import type { ContentInfo, SupportedContentType } from '../types/data';
+
+// contents are stored as one record per item in the object store of its type,
+// other fields of `DataState` are stored under their names in `STATE_STORE`,
+// along with the schema version of the data
+const DB_NAME = 'learn-helper';
+const DB_VERSION = 1;
+const STATE_STORE = 'state';
+const SCHEMA_KEY = '$schema';
+const ALL_STORES = [STATE_STORE, ...SUPPORTED_CONTENT_TYPES];
+
+type StoredData = Partial<DataState>;
+
+const mapKey = (type: SupportedContentType) => `${type}Map` as const;
+const isMapKey = (key: string) => SUPPORTED_CONTENT_TYPES.some((type) => mapKey(type) === key);
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDB = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(STATE_STORE);
+      for (const type of SUPPORTED_CONTENT_TYPES) {
+        db.createObjectStore(type, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = undefined;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// what is in the database now, used to find out changed fields and records
+let persisted: StoredData | undefined;
+// writes are serialized, so that every diff is based on the previous one
+let writing = Promise.resolve();
+// set when the stored data could not be migrated, to keep it untouched
+let suspended = false;
+
+/** Write the difference between `prev` and `next`, or everything if `prev` is unknown. */
+async function write(prev: StoredData | undefined, next: StoredData) {
+  const db = await openDB();
+  const tx = db.transaction(ALL_STORES, 'readwrite');
+  const done = completion(tx);
+
+  const stateStore = tx.objectStore(STATE_STORE);
+  if (!prev) {
+    for (const name of ALL_STORES) tx.objectStore(name).clear();
+    stateStore.put(SCHEMA_VERSION, SCHEMA_KEY);
+  }
+
+  const keys = new Set([...Object.keys(prev ?? {}), ...Object.keys(next)]) as Set<keyof DataState>;
+  for (const key of keys) {
+    if (isMapKey(key)) continue;
+    const value = next[key];
+    if (prev && prev[key] === value) continue;
+    if (value === undefined) stateStore.delete(key);
+    else stateStore.put(value, key);
+  }
+
+  for (const type of SUPPORTED_CONTENT_TYPES) {
+    const oldMap: Record<string, ContentInfo> | undefined = prev?.[mapKey(type)];
+    const newMap: Record<string, ContentInfo> = next[mapKey(type)] ?? {};
+    if (oldMap === newMap) continue;
+    const store = tx.objectStore(type);
+    // records are immutable in redux, so a changed reference means a changed record
+    for (const [id, c] of Object.entries(newMap)) {
+      if (oldMap?.[id] !== c) store.put(c);
+    }
+    for (const id of Object.keys(oldMap ?? {})) {
+      if (!(id in newMap)) store.delete(id);
+    }
+  }
+
+  await done;
+}
+
+export async function loadStoredData(): Promise<StoredData | undefined> {
+  const db = await openDB();
+  const tx = db.transaction(ALL_STORES, 'readonly');
+
+  // send all requests at once, as the transaction closes when idle
+  const stateStore = tx.objectStore(STATE_STORE);
+  const [keys, values, ...records] = await Promise.all([
+    promisify(stateStore.getAllKeys()),
+    promisify(stateStore.getAll()),
+    ...SUPPORTED_CONTENT_TYPES.map((type) =>
+      promisify<ContentInfo[]>(tx.objectStore(type).getAll()),
+    ),
+  ]);
+
+  if (keys.length === 0) return undefined;
+
+  const data: Record<string, unknown> = Object.fromEntries(
+    keys.map((key, i) => [key as string, values[i]]).filter(([key]) => key !== SCHEMA_KEY),
+  );
+  SUPPORTED_CONTENT_TYPES.forEach((type, i) => {
+    data[mapKey(type)] = Object.fromEntries(records[i].map((c) => [c.id, c]));
+  });
+
+  persisted = data;
+  return persisted;
+}
+
+/** Get the schema version of stored data, `undefined` if nothing is stored. */
+export async function loadSchemaVersion(): Promise<number | undefined> {
+  const db = await openDB();
+  const tx = db.transaction(STATE_STORE, 'readonly');
+  return promisify(tx.objectStore(STATE_STORE).get(SCHEMA_KEY));
+}
+
+/** Save the data, writing only fields and records changed since last load or save. */
+export function storeData(data: StoredData): Promise<void> {
+  writing = writing
+    .catch(() => {})
+    .then(async () => {
+      if (suspended) return;
+      const prev = persisted;
+      persisted = data;
+      try {
+        await write(prev, data);
+      } catch (e) {
+        // rewrite everything next time
+        persisted = undefined;
+        throw e;
+      }
+    });
+  return writing;
+}
+
+/** Replace all stored data in one transaction, e.g. after migration. */
+export function replaceStoredData(data: StoredData): Promise<void> {
+  persisted = undefined;
+  return storeData(data);
+}
+
+export function clearStoredData(): Promise<void> {
+  writing = writing
+    .catch(() => {})
+    .then(async () => {
+      const db = await openDB();
+      const tx = db.transaction(ALL_STORES, 'readwrite');
+      const done = completion(tx);
+      for (const name of ALL_STORES) tx.objectStore(name).clear();
+      await done;
+      // the schema version is written along with the next full write
+      persisted = undefined;
+    });
+  return writing;
+}
+
+/** Stop saving any changes in this session. */
+export function suspendStoring() {
+  suspended = true;
+}
@@ -0,0 +1,78 @@
+import { Learn2018Helper } from 'thu-learn-lib';
+
+import { SCHEMA_VERSION } from '../constants';
+import { type DataState, dataSlice, diffContents, updateContent } from '../redux/reducers/data';
+import { getStoredCredential } from './auth';
+import { countFailures, syncContents } from './fetcher';
+import { getFinger } from './finger';
+import { notifyChanges } from './notify';
+import { planRefresh } from './planner';
+import { scheduleReminders } from './reminder';
+import { loadSchemaVersion, loadStoredData, storeData } from './storage';
+import { countUnreadTotal } from './unread';
+
+const { updateCourses, updateFinished, updateSyncReport } = dataSlice.actions;
+
+const isAppOpened = async () => {
+  const url = browser.runtime.getURL('/index.html');
+  const tabs = await browser.tabs.query({ url });
+  return tabs.length > 0;
+};
+
+/**
+ * Fetch stale contents in the background and merge them into stored data,
+ * using the same reducer as the app so that read / star / ignore states are kept.
+ */
+export async function backgroundSync(): Promise<void> {
+  // the app refreshes by itself and would overwrite our result
+  if (await isAppOpened()) {
+    console.info('Background sync skipped: Learn Helper is opened');
+    return;
+  }
+
+  // leave the data untouched until the app finishes migration
+  if ((await loadSchemaVersion()) !== SCHEMA_VERSION) return;
+
+  const credential = await getStoredCredential();
+  const stored = await loadStoredData();
+  if (!credential || !stored?.semester?.id) return;
+
+  const helper = new Learn2018Helper();
+  await helper.login(credential.username, credential.password, await getFinger());
+
+  let data = dataSlice.reducer(undefined, dataSlice.actions.loadData(stored));
+  const reduce = (action: Parameters<typeof dataSlice.reducer>[1]) => {
+    data = dataSlice.reducer(data, action);
+  };
+
+  const courses = await helper.getCourseList(data.semester.id);
+  reduce(updateCourses(courses));
+
+  const tasks = planRefresh(data, { onlyStale: true });
+  if (tasks.length === 0) return;
+
+  const report = await syncContents(helper, tasks, async (type, contents) => {
+    // the diff is computed against the old data
+    const old = data;
+    const changes = diffContents(old, type, contents);
+    reduce(updateContent(type, contents));
+    await notifyChanges(old, changes, data);
+  });
+  const failures = countFailures(report);
+  if (failures !== 0) {
+    console.warn(`${failures} failures occurred in background sync`, report);
+  }
+  reduce(updateSyncReport(report));
+  reduce(updateFinished());
+
+  // the user may have opened the app during fetching
+  if (await isAppOpened()) return;
+  await storeData(data);
+  await updateBadge(data);
+  await scheduleReminders(data);
+}
+
+export async function updateBadge(data: DataState) {
+  const total = countUnreadTotal(data);
+  await browser.action.setBadgeText({ text: total === 0 ? '' : total.toString() });
+}
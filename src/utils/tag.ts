@@ -0,0 +1,21 @@
+import type { ContentInfo } from '../types/data';
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+/** Trim tags and drop empty or duplicate ones, keeping the order. */
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map((tag) => tag.trim().replace(/\s+/g, ' ')).filter((tag) => tag)));
+
+/** All tags in use, with the number of contents having each, sorted by name. */
+export function countTags(contents: ContentInfo[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const c of contents) {
+    for (const tag of c.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,59 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { DataState } from '../redux/reducers/data';
+import type { FetchedContentInfo, SupportedContentType } from '../types/data';
+import { isMuted } from './mute';
+import { isSnoozed } from './snooze';
+import { type CustomView, matchView } from './view';
+
+export type UnreadMap = Record<SupportedContentType, number>;
+
+export const EMPTY_UNREAD_MAP: UnreadMap = {
+  notification: 0,
+  file: 0,
+  homework: 0,
+  discussion: 0,
+  question: 0,
+};
+
+const isUnread = (c: FetchedContentInfo, { contentIgnore, muteRules }: DataState) =>
+  !c.ignored &&
+  !isSnoozed(c) &&
+  contentIgnore[c.courseId]?.[c.type] === false &&
+  !isMuted(c, muteRules) &&
+  (!c.hasRead || // all unread content
+    // unfinished homework before deadline
+    (c.type === ContentType.HOMEWORK && !c.submitted && c?.deadline?.getTime() > Date.now()));
+
+export function countUnread(data: DataState): UnreadMap {
+  const count = (list: FetchedContentInfo[]) =>
+    list.reduce((cnt, c) => cnt + Number(isUnread(c, data)), 0);
+
+  return {
+    notification: count(Object.values(data.notificationMap)),
+    file: count(Object.values(data.fileMap)),
+    homework: count(Object.values(data.homeworkMap)),
+    discussion: count(Object.values(data.discussionMap)),
+    question: count(Object.values(data.questionMap)),
+  };
+}
+
+export function countUnreadTotal(data: DataState): number {
+  return Object.values(countUnread(data)).reduce((total, c) => total + c, 0);
+}
+
+/** Count unread contents matching each custom view, by view id. */
+export function countViewUnread(data: DataState, views: CustomView[]): Record<string, number> {
+  const unread = ([] as FetchedContentInfo[])
+    .concat(
+      Object.values(data.notificationMap),
+      Object.values(data.fileMap),
+      Object.values(data.homeworkMap),
+      Object.values(data.discussionMap),
+      Object.values(data.questionMap),
+    )
+    .filter((c) => isUnread(c, data));
+  return Object.fromEntries(
+    views.map((view) => [view.id, unread.filter((c) => matchView(view, c)).length]),
+  );
+}
@@ -0,0 +1,51 @@
+import { ContentType } from 'thu-learn-lib';
+
+import type { ContentInfo, SupportedContentType } from '../types/data';
+
+/** A named filter of contents saved by the user, shown in the summary list. */
+export interface CustomView {
+  id: string;
+  name: string;
+  types: SupportedContentType[]; // all types if empty
+  courseIds: string[]; // all courses if empty
+  // states are not filtered if undefined
+  hasRead?: boolean;
+  starred?: boolean;
+  submitted?: boolean; // only homework matches if set
+  // days relative to the start of today, e.g. `{ start: 0, end: 7 }` for the coming week
+  dateWindow?: { start?: number; end?: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfToday = (now: number) => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/** Check whether a content (not ignored in any way) matches the view. */
+export function matchView(view: CustomView, c: ContentInfo, now = Date.now()): boolean {
+  if (view.types.length !== 0 && !view.types.includes(c.type as SupportedContentType)) {
+    return false;
+  }
+  if (view.courseIds.length !== 0 && !(c.courseId && view.courseIds.includes(c.courseId))) {
+    return false;
+  }
+  if (view.hasRead !== undefined && c.hasRead !== view.hasRead) return false;
+  if (view.starred !== undefined && c.starred !== view.starred) return false;
+  if (
+    view.submitted !== undefined &&
+    (c.type !== ContentType.HOMEWORK || c.submitted !== view.submitted)
+  ) {
+    return false;
+  }
+  if (view.dateWindow) {
+    const { start, end } = view.dateWindow;
+    const today = startOfToday(now);
+    const time = c.date.getTime();
+    if (start !== undefined && time < today + start * DAY_MS) return false;
+    if (end !== undefined && time >= today + end * DAY_MS) return false;
+  }
+  return true;
+}
@@ -0,0 +1,177 @@
+import { type RefObject, useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualRow {
+  index: number;
+  key: string;
+}
+
+interface VirtualListOptions {
+  keys: string[]; // unique key of each row
+  estimateSize: (key: string) => number; // used until a row is measured
+  overscan?: number; // pixels rendered beyond each edge of the viewport
+}
+
+// first index `i` such that `offsets[i + 1] > value`
+const findRow = (offsets: number[], value: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] > value) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+/**
+ * Render only the rows of a long list around the viewport of its scroll container.
+ *
+ * Rows may have any height: they are measured once rendered and the sizes are cached by key,
+ * so they survive changes of the list. The first visible row is kept in place whenever the
+ * rows above it change, e.g. on filtering or when a row turns out taller than estimated.
+ */
+export const useVirtualList = (
+  scrollRef: RefObject<HTMLElement | null>,
+  innerRef: RefObject<HTMLElement | null>,
+  { keys, estimateSize, overscan = 800 }: VirtualListOptions,
+) => {
+  const sizes = useRef(new Map<string, number>());
+  const [version, setVersion] = useState(0);
+  // top and height of the viewport, relative to the start of rows
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // `offsets[i]` is where row `i` starts, the last one is the total height
+  const offsets = useMemo(() => {
+    void version;
+    const result = [0];
+    for (const key of keys) {
+      result.push(result[result.length - 1] + (sizes.current.get(key) ?? estimateSize(key)));
+    }
+    return result;
+  }, [keys, estimateSize, version]);
+
+  // the first visible row and how far it has been scrolled past
+  const anchor = useRef<{ key: string; delta: number } | undefined>(undefined);
+  const latest = useRef({ keys, offsets });
+  latest.current = { keys, offsets };
+
+  // distance from the top of the scroll container's content to the start of rows
+  const rowsOffset = useCallback(() => {
+    const scroll = scrollRef.current;
+    const inner = innerRef.current;
+    if (!scroll || !inner) return 0;
+    return (
+      inner.getBoundingClientRect().top - scroll.getBoundingClientRect().top + scroll.scrollTop
+    );
+  }, [scrollRef, innerRef]);
+
+  const updateViewport = useCallback(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+    const top = scroll.scrollTop - rowsOffset();
+    setViewport({ top, height: scroll.clientHeight });
+
+    const { keys, offsets } = latest.current;
+    if (keys.length === 0) {
+      anchor.current = undefined;
+    } else {
+      const index = findRow(offsets, Math.max(top, 0));
+      anchor.current = { key: keys[index], delta: top - offsets[index] };
+    }
+  }, [scrollRef, rowsOffset]);
+
+  useLayoutEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+    updateViewport();
+    scroll.addEventListener('scroll', updateViewport, { passive: true });
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(scroll);
+    return () => {
+      scroll.removeEventListener('scroll', updateViewport);
+      observer.disconnect();
+    };
+  }, [scrollRef, updateViewport]);
+
+  // keep the anchor row in place when rows above it change
+  useLayoutEffect(() => {
+    const scroll = scrollRef.current;
+    const saved = anchor.current;
+    if (!scroll || !saved) return;
+    const index = keys.indexOf(saved.key);
+    if (index === -1) return;
+    const scrollTop = rowsOffset() + offsets[index] + saved.delta;
+    if (Math.abs(scroll.scrollTop - scrollTop) >= 1) scroll.scrollTop = scrollTop;
+  }, [scrollRef, rowsOffset, keys, offsets]);
+
+  // rows are measured as they are mounted, which may happen before the observer is created
+  const rowElements = useRef(new Set<HTMLElement>());
+  const observer = useRef<ResizeObserver | undefined>(undefined);
+
+  useLayoutEffect(() => {
+    const current = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const el = entry.target as HTMLElement;
+        const key = el.dataset.key;
+        if (key !== undefined && sizes.current.get(key) !== el.offsetHeight) {
+          sizes.current.set(key, el.offsetHeight);
+          changed = true;
+        }
+      }
+      if (changed) setVersion((v) => v + 1);
+    });
+    for (const el of rowElements.current) current.observe(el);
+    observer.current = current;
+    return () => {
+      current.disconnect();
+      observer.current = undefined;
+    };
+  }, []);
+
+  /** Ref callback for the element of a row, which must carry the key as `data-key`. */
+  const measure = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    rowElements.current.add(el);
+    observer.current?.observe(el);
+    return () => {
+      rowElements.current.delete(el);
+      observer.current?.unobserve(el);
+    };
+  }, []);
+
+  /** Scroll the least distance to make a row fully visible. */
+  const scrollToRow = useCallback(
+    (index: number) => {
+      const scroll = scrollRef.current;
+      if (!scroll || index < 0 || index >= keys.length) return;
+      const start = rowsOffset() + offsets[index];
+      const end = rowsOffset() + offsets[index + 1];
+      if (start < scroll.scrollTop) scroll.scrollTop = start;
+      else if (end > scroll.scrollTop + scroll.clientHeight) {
+        scroll.scrollTop = end - scroll.clientHeight;
+      }
+    },
+    [scrollRef, rowsOffset, keys, offsets],
+  );
+
+  let rows: VirtualRow[] = [];
+  let first = 0;
+  let last = -1;
+  if (keys.length !== 0) {
+    first = findRow(offsets, Math.max(viewport.top - overscan, 0));
+    last = findRow(offsets, viewport.top + viewport.height + overscan);
+    rows = keys.slice(first, last + 1).map((key, i) => ({ index: first + i, key }));
+  }
+
+  return {
+    rows,
+    offsets,
+    viewportTop: viewport.top,
+    // space taken by rows not rendered
+    paddingTop: offsets[first],
+    paddingBottom: offsets[offsets.length - 1] - offsets[last + 1],
+    measure,
+    scrollToRow,
+  };
+};
@@ -0,0 +1,11 @@
+import react from '@vitejs/plugin-react-swc';
+import { defineConfig } from 'vitest/config';
+import { WxtVitest } from 'wxt/testing/vitest-plugin';
+
+export default defineConfig({
+  // lingui macros are compiled as in `wxt.config.ts`
+  plugins: [WxtVitest(), react({ plugins: [['@lingui/swc-plugin', {}]] })],
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -93,8 +93,8 @@ export default defineConfig({
     host_permissions: ['*://learn.tsinghua.edu.cn/*', '*://id.tsinghua.edu.cn/*'],
     permissions:
       browser === 'firefox'
-        ? ['storage', 'downloads']
-        : ['storage', 'downloads', 'declarativeNetRequest'],
+        ? ['storage', 'downloads', 'alarms', 'notifications']
+        : ['storage', 'downloads', 'alarms', 'notifications', 'declarativeNetRequest'],
     ...(browser === 'firefox' && {
       browser_specific_settings: {
         gecko: {